@@ -1,46 +1,174 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
 import { LiveServerMessage, FunctionDeclaration, Type } from "@google/genai";
-import { PERSONAS, SCENES } from './constants';
-import { PersonaId, SceneId, ChatMessage, SavedSession } from './types';
+import { DEFAULT_PERSONA_ID, DEFAULT_SCENE_ID } from './constants';
+import { Persona, Scene, Mission, MissionProgress, ReviewCard, VocabularyItem, ChatMessage, SavedSession, ScoreData, SpeakingMetrics, ProgressReport } from './types';
 import ShaderBackground from './components/ShaderBackground';
-import AudioVisualizer from './components/AudioVisualizer';
+import AudioVisualizer, { VisualizerMode } from './components/AudioVisualizer';
 import FAQSection from './components/FAQSection';
 import Fireworks from './components/Fireworks';
-import SessionResult, { ScoreData } from './components/SessionResult';
+import SessionResult from './components/SessionResult';
 import TranscriptView from './components/TranscriptView';
 import HistoryDrawer from './components/HistoryDrawer';
-import { createBlob, decodeAudioData, decode } from './utils/audioUtils';
-import { geminiService } from './services/gemini';
+import ProgressReportView from './components/ProgressReportView';
+import ProgressDashboard from './components/ProgressDashboard';
+import PersonaEditor from './components/PersonaEditor';
+import { personaCatalog, PersonaDraft } from './services/personaCatalog';
+import SceneEditor from './components/SceneEditor';
+import { sceneCatalog, SceneDraft } from './services/sceneCatalog';
+import MissionPicker from './components/MissionPicker';
+import MissionChecklist from './components/MissionChecklist';
+import { missionCatalog, createMissionProgress, findUsedPhrases, isMissionComplete } from './services/missionCatalog';
+import { parseCorrection, collectCorrections, CORRECTION_CATEGORIES } from './utils/corrections';
+import ReviewLauncher from './components/ReviewLauncher';
+import ReviewSession from './components/ReviewSession';
+import SpokenReviewPanel from './components/SpokenReviewPanel';
+import { reviewDeck } from './services/reviewDeck';
+import { ReviewQuality } from './utils/sm2';
+import { computeRms } from './utils/audioUtils';
+import { AudioCapture } from './services/audioCapture';
+import { SpeakingMetricsTracker } from './services/speakingMetrics';
+import { voiceRecorder } from './services/voiceRecorder';
+import { recordingStore } from './services/recordingStore';
+import { outputMixer } from './services/outputMixer';
+import { ambienceEngine } from './services/ambienceEngine';
+import { micController, PUSH_TO_TALK_KEY } from './services/micController';
+import MicControls from './components/MicControls';
+import ChatComposer from './components/ChatComposer';
+import OutputControls from './components/OutputControls';
+import { describeScene } from './services/gemini';
+import { llmProvider } from './services/llmProvider';
+import { liveConnection, ConnectionStatus, LiveSessionOptions, MAX_RECONNECT_ATTEMPTS } from './services/liveConnection';
+import { sessionRepository, normalizeScore, normalizeVocabularyItem, createSessionId, SESSION_SCHEMA_VERSION } from './services/sessionRepository';
+import { downloadTranscript, formatTurns, TranscriptFormat } from './utils/transcriptExport';
+import { liveTranscript } from './services/transcriptRecorder';
+import { LiveMessageHandler, createWebAudioPlayback, ToolCall, ToolRespond } from './services/liveMessageHandler';
+import { loadCachedReport, cacheReport, clearCachedReport, isReportCurrent } from './services/progressReportCache';
 
-const changeSceneFunction: FunctionDeclaration = {
+// Both built per session because the catalogs include the user's custom scenes and personas.
+const buildChangeSceneFunction = (scenes: Scene[]): FunctionDeclaration => ({
   name: 'changeScene',
   parameters: {
     type: Type.OBJECT,
-    description: 'Change the current immersive background scene.',
-    properties: { sceneId: { type: Type.STRING, enum: Object.keys(SCENES) } },
+    description: `Change the current immersive scene. Available: ${scenes.map(s => `${s.id} (${s.name})`).join('; ')}.`,
+    properties: { sceneId: { type: Type.STRING, enum: scenes.map(s => s.id) } },
     required: ['sceneId'],
   },
-};
+});
 
-const changePersonaFunction: FunctionDeclaration = {
+const buildChangePersonaFunction = (personas: Persona[]): FunctionDeclaration => ({
   name: 'changePersona',
   parameters: {
     type: Type.OBJECT,
-    description: 'Switch the AI personality.',
-    properties: { personaId: { type: Type.STRING, enum: Object.keys(PERSONAS) } },
+    description: `Switch the AI personality. Available: ${personas.map(p => `${p.id} (${p.name}, ${p.role})`).join('; ')}.`,
+    properties: { personaId: { type: Type.STRING, enum: personas.map(p => p.id) } },
     required: ['personaId'],
   },
+});
+
+const reportCorrectionFunction: FunctionDeclaration = {
+  name: 'reportCorrection',
+  parameters: {
+    type: Type.OBJECT,
+    description: "Record a correction of something the user just said so it can be shown on screen and reviewed later.",
+    properties: {
+      original: { type: Type.STRING, description: "The user's phrase as they said it." },
+      corrected: { type: Type.STRING, description: 'The corrected or more natural phrase.' },
+      category: { type: Type.STRING, enum: CORRECTION_CATEGORIES },
+      explanation: { type: Type.STRING, description: 'One short sentence on why.' },
+    },
+    required: ['original', 'corrected', 'category', 'explanation'],
+  },
 };
 
+const teachPhraseFunction: FunctionDeclaration = {
+  name: 'teachPhrase',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Save an idiom or phrase you just used that the user may not know, so it goes into their review deck.',
+    properties: {
+      phrase: { type: Type.STRING },
+      meaning: { type: Type.STRING, description: 'Short plain-English meaning.' },
+      example: { type: Type.STRING, description: 'A natural example sentence.' },
+    },
+    required: ['phrase', 'meaning', 'example'],
+  },
+};
+
+const gradeReviewCardFunction: FunctionDeclaration = {
+  name: 'gradeReviewCard',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Grade how well the user recalled one review card.',
+    properties: {
+      cardId: { type: Type.STRING },
+      quality: { type: Type.INTEGER, description: '0 = forgot completely, 3 = recalled with effort, 5 = perfect.' },
+    },
+    required: ['cardId', 'quality'],
+  },
+};
+
+// Spoken review drills are kept short so they fit in a couple of minutes.
+const SPOKEN_REVIEW_SIZE = 6;
+const TEXT_REVIEW_SIZE = 20;
+
+// Only offered while a mission is active; objective IDs are constrained to the mission's own.
+const buildMissionFunctions = (mission: Mission): FunctionDeclaration[] => [
+  {
+    name: 'completeObjective',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Mark a mission objective as achieved by the user.',
+      properties: { objectiveId: { type: Type.STRING, enum: mission.objectives.map(o => o.id) } },
+      required: ['objectiveId'],
+    },
+  },
+  {
+    name: 'completeMission',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Declare the mission finished, either because every objective is done or the role-play has run its course.',
+      properties: { outcome: { type: Type.STRING, description: 'One or two sentences on how the mission went.' } },
+      required: ['outcome'],
+    },
+  },
+];
+
+const HISTORY_PAGE_SIZE = 10;
+// Sessions saved without a score (e.g. the network was down when they ended) are re-scored this many at a time.
+const PENDING_SCORE_BATCH = 3;
+// Mic RMS above this (about -34 dBFS) counts as the user speaking.
+const SPEECH_RMS_THRESHOLD = 0.02;
+
 const App: React.FC = () => {
-  const [currentSceneId, setCurrentSceneId] = useState<SceneId>(SceneId.COFFEE_SHOP);
-  const [currentPersonaId, setCurrentPersonaId] = useState<PersonaId>(PersonaId.SINK);
+  const scenes = useSyncExternalStore(sceneCatalog.subscribe, sceneCatalog.getAll);
+  const [currentSceneId, setCurrentSceneId] = useState<string>(DEFAULT_SCENE_ID);
+  const [isSceneMenuOpen, setIsSceneMenuOpen] = useState(false);
+  const [isSceneEditorOpen, setIsSceneEditorOpen] = useState(false);
+  const [editingScene, setEditingScene] = useState<Scene | null>(null);
+  const personas = useSyncExternalStore(personaCatalog.subscribe, personaCatalog.getAll);
+  const [currentPersonaId, setCurrentPersonaId] = useState<string>(DEFAULT_PERSONA_ID);
+  const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState(false);
+  const [activeMissionId, setActiveMissionId] = useState<string | null>(null);
+  const [missionProgress, setMissionProgress] = useState<MissionProgress | null>(null);
+  const reviewCards = useSyncExternalStore(reviewDeck.subscribe, reviewDeck.getCards);
+  const [textReviewCards, setTextReviewCards] = useState<ReviewCard[] | null>(null);
+  const [spokenReview, setSpokenReview] = useState<{ cards: ReviewCard[]; graded: Record<string, number> } | null>(null);
+  const [lastSpokenReview, setLastSpokenReview] = useState<{ graded: number; total: number } | null>(null);
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const [isMicOn, setIsMicOn] = useState(true);
+  const micState = useSyncExternalStore(micController.subscribe, micController.getState);
+  const recordVoice = useSyncExternalStore(voiceRecorder.subscribe, voiceRecorder.isEnabled);
+  const mixerSettings = useSyncExternalStore(outputMixer.subscribe, outputMixer.getSettings);
   const [error, setError] = useState<string | null>(null);
   const [isPersonaMenuOpen, setIsPersonaMenuOpen] = useState(false);
+  const [isSwitchingPersona, setIsSwitchingPersona] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [isAiSpeaking, setIsAiSpeaking] = useState(false);
   const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [micAnalyser, setMicAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('waveform');
   
   const [imageContext, setImageContext] = useState<string | null>(null);
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
@@ -52,49 +180,84 @@ const App: React.FC = () => {
   const [searchLinks, setSearchLinks] = useState<{title: string, uri: string}[]>([]);
   const [isSearching, setIsSearching] = useState(false);
 
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [liveInput, setLiveInput] = useState("");
-  const [liveOutput, setLiveOutput] = useState("");
+  const transcript = useSyncExternalStore(liveTranscript.subscribe, liveTranscript.getSnapshot);
+  const [isTypingMode, setIsTypingMode] = useState(false);
+  const [isMicUnavailable, setIsMicUnavailable] = useState(false);
+  const [textReplies, setTextReplies] = useState(false);
   const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
+  const [totalSessions, setTotalSessions] = useState(0);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [progressReport, setProgressReport] = useState<ProgressReport | null>(() => loadCachedReport());
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [isDashboardOpen, setIsDashboardOpen] = useState(false);
+  const [dashboardSessions, setDashboardSessions] = useState<SavedSession[] | null>(null);
 
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showResult, setShowResult] = useState(false);
   const [showFireworks, setShowFireworks] = useState(false);
   const [scoreData, setScoreData] = useState<ScoreData | null>(null);
+  const [lastSession, setLastSession] = useState<SavedSession | null>(null);
   
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
   const volumeIntervalRef = useRef<number>(0);
-  const ambientAudioRef = useRef<HTMLAudioElement | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const transcriptLogRef = useRef<string>("");
-  const currentTurnInputRef = useRef<string>("");
-  const currentTurnOutputRef = useRef<string>("");
+  const messageHandlerRef = useRef<LiveMessageHandler | null>(null);
+  const currentPersonaIdRef = useRef<string>(currentPersonaId);
+  const missionProgressRef = useRef<MissionProgress | null>(null);
+  const spokenReviewRef = useRef<{ cards: ReviewCard[]; graded: Record<string, number> } | null>(null);
+  const sessionVocabularyRef = useRef<VocabularyItem[]>([]);
+  const speakingMetricsRef = useRef<SpeakingMetricsTracker | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
+  // Live session callbacks are created once per connection, so they read these through refs.
+  useEffect(() => { currentPersonaIdRef.current = currentPersonaId; }, [currentPersonaId]);
+  useEffect(() => { liveTranscript.setContext({ personaId: currentPersonaId, sceneId: currentSceneId }); }, [currentPersonaId, currentSceneId]);
+
+  const loadHistory = useCallback(async (count = HISTORY_PAGE_SIZE) => {
     try {
-      const saved = localStorage.getItem('deepsink_history');
-      if (saved) setSavedSessions(JSON.parse(saved));
-    } catch (e) {}
+      const page = await sessionRepository.list(0, count);
+      setSavedSessions(page.sessions);
+      setTotalSessions(page.total);
+    } catch (e) {
+      console.error("Failed to load session history:", e);
+      setStorageWarning("Session history is unavailable in this browser.");
+    }
   }, []);
 
+  useEffect(() => {
+    loadHistory();
+    sessionRepository.getStorageStatus().then(status => {
+      if (status?.nearLimit) setStorageWarning("Browser storage is almost full. Older sessions will be removed automatically.");
+    });
+  }, [loadHistory]);
+
+  const handleLoadMoreHistory = async () => {
+    try {
+      const page = await sessionRepository.list(savedSessions.length, HISTORY_PAGE_SIZE);
+      setSavedSessions(prev => [...prev, ...page.sessions]);
+      setTotalSessions(page.total);
+    } catch (e) {
+      console.error("Failed to load more sessions:", e);
+    }
+  };
+
   const stopAudio = useCallback(() => {
     if (volumeIntervalRef.current) cancelAnimationFrame(volumeIntervalRef.current);
-    if (processorRef.current) processorRef.current.disconnect();
-    if (sourceRef.current) sourceRef.current.disconnect();
-    if (analyserRef.current) analyserRef.current.disconnect();
-    if (streamRef.current) streamRef.current.getTracks().forEach(track => track.stop());
-    if (inputAudioContextRef.current) inputAudioContextRef.current.close();
+    micController.detach();
+    if (captureRef.current) captureRef.current.stop();
+    captureRef.current = null;
+    analyserRef.current = null;
+    outputAnalyserRef.current = null;
+    setMicAnalyser(null);
+    setOutputAnalyser(null);
     if (outputAudioContextRef.current) outputAudioContextRef.current.close();
-    sourcesRef.current.forEach(source => { try { source.stop(); } catch(e) {} });
-    sourcesRef.current.clear();
+    messageHandlerRef.current?.setPlayback(null);
+    outputMixer.detach();
     setIsAiSpeaking(false);
     setIsUserSpeaking(false);
   }, []);
@@ -104,7 +267,7 @@ const App: React.FC = () => {
     setIsSearching(true);
     setError(null);
     try {
-        const result = await geminiService.searchGrounding(searchTopic);
+        const result = await llmProvider.searchGrounding(searchTopic);
         setSearchSummary(result.summary);
         setSearchLinks(result.links);
         setActiveSearchTopic(searchTopic);
@@ -127,7 +290,7 @@ const App: React.FC = () => {
         });
         setImagePreviewUrl(readerResult);
         const base64Data = readerResult.split(',')[1];
-        const text = await geminiService.analyzeImage(base64Data, file.type);
+        const text = await llmProvider.analyzeImage(base64Data, file.type);
         if (text) setImageContext(text);
     } catch (err) {
         setError("Failed to process image.");
@@ -147,155 +310,626 @@ const App: React.FC = () => {
     setSearchLinks([]);
   };
 
-  const connectToGemini = async () => {
+  const updateMissionProgress = (update: (progress: MissionProgress) => MissionProgress) => {
+      if (!missionProgressRef.current) return;
+      missionProgressRef.current = update(missionProgressRef.current);
+      setMissionProgress(missionProgressRef.current);
+  };
+
+  // Picking a mission sets up its scene and partner; the session itself starts when the user hits the mic.
+  const selectMission = (missionId: string | null) => {
+      setActiveMissionId(missionId);
+      const mission = missionId ? missionCatalog.get(missionId) : undefined;
+      if (!mission) return;
+      setCurrentSceneId(sceneCatalog.resolve(mission.sceneId).id);
+      setCurrentPersonaId(personaCatalog.resolve(mission.personaId).id);
+  };
+
+  // With `reviewCards`, the session is a short spoken review drill instead of a conversation or mission.
+  const connectToGemini = async (reviewCards?: ReviewCard[]) => {
     try {
       setError(null);
       stopAudio();
-      transcriptLogRef.current = ""; 
-      currentTurnInputRef.current = "";
-      currentTurnOutputRef.current = "";
-      setMessages([]);
-      setLiveInput("");
-      setLiveOutput("");
+      spokenReviewRef.current = reviewCards?.length ? { cards: reviewCards, graded: {} } : null;
+      setSpokenReview(spokenReviewRef.current);
+      sessionVocabularyRef.current = [];
+      speakingMetricsRef.current = new SpeakingMetricsTracker();
+      const mission = activeMissionId && !reviewCards ? missionCatalog.get(activeMissionId) : undefined;
+      missionProgressRef.current = mission ? createMissionProgress(mission) : null;
+      setMissionProgress(missionProgressRef.current);
+      liveTranscript.reset({ personaId: currentPersonaId, sceneId: currentSceneId });
+      voiceRecorder.discard();
+      recordingStore.discardPending();
+      setIsTypingMode(false);
+      setIsMicUnavailable(false);
+      setTextReplies(false);
 
+      // Created inside the click handler so the browser lets the contexts start; the mic is attached once the session opens.
+      micController.setMuted(false);
+      captureRef.current = new AudioCapture(micController.handleChunk);
+      await captureRef.current.resume();
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      inputAudioContextRef.current = new AudioContextClass({ sampleRate: 16000 });
-      if (inputAudioContextRef.current.state === 'suspended') await inputAudioContextRef.current.resume();
       outputAudioContextRef.current = new AudioContextClass({ sampleRate: 24000 });
-      nextStartTimeRef.current = 0;
+      const outAnalyser = outputAudioContextRef.current.createAnalyser();
+      outAnalyser.fftSize = 1024;
+      const voiceInput = outputMixer.attach(outputAudioContextRef.current, outAnalyser);
+      outputAnalyserRef.current = outAnalyser;
+      setOutputAnalyser(outAnalyser);
+      messageHandlerRef.current = new LiveMessageHandler({
+        transcript: liveTranscript,
+        playback: createWebAudioPlayback(outputAudioContextRef.current, voiceInput, () => outputMixer.getSettings().playbackRate),
+        sendToolResponse: (toolResponse) => llmProvider.sendToolResponse(toolResponse),
+        onToolCall: handleToolCall,
+        onAiSpeakingChange: (speaking) => {
+          setIsAiSpeaking(speaking);
+          speakingMetricsRef.current?.setAiSpeaking(speaking);
+        },
+        onUserTurn: (turn) => {
+          trackTargetPhrases(turn.text);
+          speakingMetricsRef.current?.addUserText(turn.text);
+        },
+        // The audio heard since the last user turn is this turn's recording.
+        recordingIdForTurn: () => {
+          const clip = voiceRecorder.cut();
+          if (clip) recordingStore.keep(clip);
+          return clip?.id;
+        },
+        // Whatever the mic picked up while the partner was talking isn't part of the next turn.
+        onTurnComplete: () => { if (!liveTranscript.hasPendingUser) voiceRecorder.discard(); },
+      });
+
+      try {
+        await startLiveSession(personaCatalog.resolve(currentPersonaId));
+      } catch (e) {
+        console.error("Failed to connect:", e);
+        stopAudio();
+        spokenReviewRef.current = null;
+        setSpokenReview(null);
+        setError("Couldn't connect to the conversation service. Check your network and try again.");
+      }
+    } catch (e) { setError("Failed to initialize session."); }
+  };
+
+  const flushUserTurn = () => { messageHandlerRef.current?.flushUserTurn(); };
+
+  // Typed turns count for missions and scoring, but not for the speaking metrics.
+  const sendTypedTurn = (text: string) => {
+      flushUserTurn();
+      liveTranscript.flushAi();
+      const turn = liveTranscript.addTypedUser(text);
+      if (!turn) return;
+      trackTargetPhrases(turn.text);
+      llmProvider.sendText(turn.text);
+  };
+
+  const setTypingMode = (typing: boolean) => {
+      setIsTypingMode(typing);
+      if (micState.capturing) micController.setMuted(typing);
+  };
+
+  // The reply modality and barge-in handling are fixed per live connection, so changing them reconnects with the conversation carried over.
+  const reconnectWithChanges = async (changes: Partial<LiveSessionOptions>, note: string) => {
+      setIsSwitchingPersona(true);
+      flushUserTurn();
+      messageHandlerRef.current?.interrupt();
+      try {
+        await liveConnection.reconnectWith(changes, `${note} Continue naturally without greeting them again.\n${recentTurnsText()}`);
+      } finally {
+        setIsSwitchingPersona(false);
+      }
+  };
+
+  const changeTextReplies = async (enabled: boolean) => {
+      if (messageHandlerRef.current) messageHandlerRef.current.textReplies = enabled;
+      setTextReplies(enabled);
+      await reconnectWithChanges({ textReplies: enabled }, `The user switched to ${enabled ? 'text' : 'spoken'} replies.`);
+  };
 
-      const persona = PERSONAS[currentPersonaId];
+  const changeAllowBargeIn = async (allow: boolean) => {
+      micController.setAllowBargeIn(allow);
+      if (liveConnection.isConnected) await reconnectWithChanges({ allowInterruptions: allow }, "The connection was restarted to change a setting.");
+  };
+
+  const trackTargetPhrases = (text: string) => {
+      const mission = missionProgressRef.current && missionCatalog.get(missionProgressRef.current.missionId);
+      if (!mission) return;
+      const used = findUsedPhrases(text, mission.targetPhrases).filter(p => !missionProgressRef.current?.usedPhrases.includes(p));
+      if (used.length) updateMissionProgress(p => ({ ...p, usedPhrases: [...p.usedPhrases, ...used] }));
+  };
+
+  const recentTurnsText = () => formatTurns(liveTranscript.getTurns().slice(-12));
+
+  const stopAiPlayback = () => { messageHandlerRef.current?.stopPlayback(); };
+
+  const switchPersona = async (personaId: string) => {
+      const persona = personaCatalog.resolve(personaId);
+      const previous = personaCatalog.resolve(currentPersonaIdRef.current);
+      currentPersonaIdRef.current = personaId;
+      setCurrentPersonaId(personaId);
+      setIsSwitchingPersona(true);
+      stopAiPlayback();
+      // The voice is fixed per live session, so switching means reconnecting with the recent conversation carried over.
+      try {
+        await liveConnection.switchPersona(persona, `You are taking over from ${previous.name}, who just handed the user over to you. Introduce yourself briefly and continue naturally.\n${recentTurnsText()}`);
+      } finally {
+        setIsSwitchingPersona(false);
+      }
+  };
+
+  const handleToolCall = async (fc: ToolCall, respond: ToolRespond) => {
+      if (fc.name === 'changeScene') {
+          const sceneId = fc.args?.sceneId as string;
+          const scene = sceneCatalog.get(sceneId);
+          if (!scene) return respond({ error: `Unknown sceneId "${sceneId}". Valid IDs: ${sceneCatalog.getAll().map(s => s.id).join(', ')}.` });
+          setCurrentSceneId(sceneId);
+          liveConnection.updateOptions({ scene });
+          // The brief goes back with the response so the role-play changes along with the backdrop.
+          return respond({ result: `Switched to ${scene.name}. Continue the conversation in this new setting.`, brief: describeScene(scene) });
+      }
+      if (fc.name === 'reportCorrection') {
+          const correction = parseCorrection(fc.args);
+          if (!correction) return respond({ error: "Both `original` and `corrected` are required." });
+          // The model reports after hearing the user out, so whatever they were saying belongs in the transcript first.
+          if (liveTranscript.hasPendingUser) flushUserTurn();
+          liveTranscript.attachCorrection(correction);
+          return respond({ result: "recorded" });
+      }
+      if (fc.name === 'teachPhrase') {
+          const item = normalizeVocabularyItem(fc.args);
+          if (!item) return respond({ error: "`phrase` is required." });
+          if (!sessionVocabularyRef.current.some(v => v.phrase.toLowerCase() === item.phrase.toLowerCase())) {
+              sessionVocabularyRef.current = [...sessionVocabularyRef.current, item];
+          }
+          return respond({ result: "saved" });
+      }
+      if (fc.name === 'gradeReviewCard') {
+          const review = spokenReviewRef.current;
+          const cardId = fc.args?.cardId as string;
+          if (!review) return respond({ error: "No review drill is running." });
+          if (!review.cards.some(c => c.id === cardId)) return respond({ error: `Unknown cardId "${cardId}".` });
+          const quality = Math.max(0, Math.min(5, Math.round(Number(fc.args?.quality) || 0))) as ReviewQuality;
+          spokenReviewRef.current = { ...review, graded: { ...review.graded, [cardId]: quality } };
+          setSpokenReview(spokenReviewRef.current);
+          await reviewDeck.grade(cardId, quality).catch(e => console.error("Failed to save review grade:", e));
+          const remaining = review.cards.filter(c => !(c.id in spokenReviewRef.current!.graded)).length;
+          return respond({ result: remaining ? `Graded. ${remaining} card(s) left.` : "All cards graded. Wrap up the drill." });
+      }
+      if (fc.name === 'completeObjective' || fc.name === 'completeMission') {
+          const mission = missionProgressRef.current && missionCatalog.get(missionProgressRef.current.missionId);
+          if (!mission) return respond({ error: "No mission is active in this session." });
+          if (fc.name === 'completeMission') {
+              updateMissionProgress(p => ({ ...p, outcome: String(fc.args?.outcome ?? '') || null }));
+              return respond({ result: "Mission wrapped up. Say a natural goodbye or keep chatting if the user wants to." });
+          }
+          const objectiveId = fc.args?.objectiveId as string;
+          if (!mission.objectives.some(o => o.id === objectiveId)) {
+              return respond({ error: `Unknown objectiveId "${objectiveId}". Valid IDs: ${mission.objectives.map(o => o.id).join(', ')}.` });
+          }
+          updateMissionProgress(p => p.completedObjectiveIds.includes(objectiveId) ? p : { ...p, completedObjectiveIds: [...p.completedObjectiveIds, objectiveId] });
+          const progress = missionProgressRef.current!;
+          const remaining = mission.objectives.filter(o => !progress.completedObjectiveIds.includes(o.id));
+          return respond(isMissionComplete(mission, progress)
+            ? { result: "All objectives complete. Call completeMission when the scene reaches a natural end." }
+            : { result: `Objective "${objectiveId}" complete.`, remaining: remaining.map(o => o.id) });
+      }
+      if (fc.name === 'changePersona') {
+          const personaId = fc.args?.personaId as string;
+          const persona = personaCatalog.get(personaId);
+          if (!persona) return respond({ error: `Unknown personaId "${personaId}". Valid IDs: ${personaCatalog.getAll().map(p => p.id).join(', ')}.` });
+          if (personaId === currentPersonaIdRef.current) return respond({ result: `Already talking as ${persona.name}.` });
+          await respond({ result: `Switching to ${persona.name}.` });
+          return switchPersona(personaId);
+      }
+      return respond({ error: `Unknown function "${fc.name}".` });
+  };
 
-      await geminiService.connectLive({
+  const startLiveSession = async (persona: Persona) => {
+      const mission = missionProgressRef.current ? missionCatalog.get(missionProgressRef.current.missionId) : undefined;
+      const review = spokenReviewRef.current;
+      await liveConnection.start({
         persona,
+        scene: sceneCatalog.resolve(currentSceneId),
+        mission,
+        reviewCards: review?.cards ?? null,
+        allowInterruptions: micController.getState().allowBargeIn,
         imageContext,
         searchContext: searchSummary,
-        tools: [changeSceneFunction, changePersonaFunction],
-        onOpen: async () => {
+        tools: [
+          buildChangeSceneFunction(sceneCatalog.getAll()),
+          buildChangePersonaFunction(personaCatalog.getAll()),
+          reportCorrectionFunction,
+          teachPhraseFunction,
+          ...(review ? [gradeReviewCardFunction] : []),
+          ...(mission ? buildMissionFunctions(mission) : []),
+        ],
+      }, {
+        onStatusChange: (status, attempt) => {
+            setConnectionStatus(status);
+            setReconnectAttempt(attempt);
+        },
+        getResumeContext: () => {
+            const completed = missionProgressRef.current?.completedObjectiveIds ?? [];
+            const missionNote = completed.length ? `\nMission objectives already completed: ${completed.join(', ')}.` : '';
+            return `The connection dropped briefly and has just been restored. Pick up where you left off without greeting the user again.${missionNote}\n${recentTurnsText()}`;
+        },
+        onOpen: async (isReconnect) => {
+            if (isReconnect) {
+                // Whatever was mid-flight on the dropped connection will never complete.
+                flushUserTurn();
+                messageHandlerRef.current?.interrupt();
+            }
             setIsConnected(true);
+            // The microphone pipeline survives persona switches and reconnects; only the first connection sets it up.
+            const capture = captureRef.current;
+            if (!capture || capture.isRunning) return;
             try {
-              streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-              if(!inputAudioContextRef.current) return;
-              const source = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-              sourceRef.current = source;
-              const analyser = inputAudioContextRef.current.createAnalyser();
-              analyser.fftSize = 256;
-              source.connect(analyser);
+              const stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } });
+              await capture.start(stream);
+              micController.attach(capture, {
+                send: (chunk) => {
+                  if (!liveConnection.isConnected) return;
+                  llmProvider.sendAudio(chunk);
+                  voiceRecorder.push(chunk);
+                },
+                endStream: () => llmProvider.sendAudioStreamEnd(),
+              });
+              const analyser = capture.analyser;
               analyserRef.current = analyser;
-              const dataArray = new Uint8Array(analyser.frequencyBinCount);
+              setMicAnalyser(analyser);
+              const dataArray = new Float32Array(analyser.fftSize);
               const checkVolume = () => {
-                 if (analyserRef.current && isMicOn) {
-                     analyserRef.current.getByteFrequencyData(dataArray);
-                     const sum = dataArray.reduce((a,b) => a + b, 0);
-                     setIsUserSpeaking((sum / dataArray.length) > 15);
-                 } else setIsUserSpeaking(false);
+                 if (analyserRef.current && micController.getState().transmitting) {
+                     analyserRef.current.getFloatTimeDomainData(dataArray);
+                     const speaking = computeRms(dataArray) > SPEECH_RMS_THRESHOLD;
+                     setIsUserSpeaking(speaking);
+                     speakingMetricsRef.current?.sampleUser(speaking);
+                 } else {
+                     setIsUserSpeaking(false);
+                     speakingMetricsRef.current?.sampleUser(false);
+                 }
                  volumeIntervalRef.current = requestAnimationFrame(checkVolume);
               };
               checkVolume();
-              const processor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-              processorRef.current = processor;
-              processor.onaudioprocess = (e) => {
-                if (isMicOn) geminiService.sendAudio(createBlob(e.inputBuffer.getChannelData(0)));
-              };
-              source.connect(processor);
-              processor.connect(inputAudioContextRef.current.destination);
-            } catch (err) { setError("Microphone access failed."); }
+            } catch (err) {
+              // Without a mic the session carries on as a typed conversation instead of sitting there "LIVE".
+              setIsMicUnavailable(true);
+              setIsTypingMode(true);
+            }
         },
-        onMessage: async (message: LiveServerMessage) => {
-             const serverContent = message.serverContent;
-             const flushUserTurn = () => {
-                 if (currentTurnInputRef.current.trim()) setMessages(prev => [...prev, { role: 'user', text: currentTurnInputRef.current.trim(), timestamp: Date.now() }]);
-                 currentTurnInputRef.current = ""; setLiveInput("");
-             };
-             const flushAiTurn = () => {
-                 if (currentTurnOutputRef.current.trim()) setMessages(prev => [...prev, { role: 'model', text: currentTurnOutputRef.current.trim(), timestamp: Date.now() }]);
-                 currentTurnOutputRef.current = ""; setLiveOutput("");
-             };
-
-             if (serverContent?.inputTranscription?.text) {
-                 if (currentTurnOutputRef.current) flushAiTurn();
-                 currentTurnInputRef.current += serverContent.inputTranscription.text;
-                 setLiveInput(currentTurnInputRef.current);
-                 transcriptLogRef.current += `User: ${serverContent.inputTranscription.text}\n`;
-             }
-             if (serverContent?.outputTranscription?.text) {
-                 if (currentTurnInputRef.current) flushUserTurn();
-                 currentTurnOutputRef.current += serverContent.outputTranscription.text;
-                 setLiveOutput(currentTurnOutputRef.current);
-                 transcriptLogRef.current += `Sink: ${serverContent.outputTranscription.text}\n`;
-             }
-             if (serverContent?.turnComplete) { flushUserTurn(); flushAiTurn(); }
-
-             if (message.toolCall) {
-                for (const fc of message.toolCall.functionCalls) {
-                    if (fc.name === 'changeScene' && SCENES[(fc.args as any).sceneId]) {
-                        setCurrentSceneId((fc.args as any).sceneId);
-                        geminiService.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: { result: "ok" } } });
-                    }
-                }
-             }
-
-             const base64Audio = serverContent?.modelTurn?.parts?.find?.(part => part.inlineData?.data)?.inlineData?.data;
-             if (base64Audio && outputAudioContextRef.current) {
-                 const ctx = outputAudioContextRef.current;
-                 nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                 const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-                 const source = ctx.createBufferSource();
-                 source.buffer = audioBuffer;
-                 source.connect(ctx.destination);
-                 source.addEventListener('ended', () => { sourcesRef.current.delete(source); if (sourcesRef.current.size === 0) setIsAiSpeaking(false); });
-                 source.start(nextStartTimeRef.current);
-                 nextStartTimeRef.current += audioBuffer.duration;
-                 sourcesRef.current.add(source);
-                 setIsAiSpeaking(true);
-             }
-             if (serverContent?.interrupted) {
-                 sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-                 sourcesRef.current.clear();
-                 nextStartTimeRef.current = 0;
-                 setIsAiSpeaking(false);
-                 if (currentTurnOutputRef.current) flushAiTurn();
-             }
-        },
-        onClose: () => setIsConnected(false),
-        onError: () => setIsConnected(false)
+        onMessage: (message: LiveServerMessage) => messageHandlerRef.current?.handle(message),
       });
-    } catch (e) { setError("Failed to initialize session."); }
   };
 
   const handleDisconnect = async () => {
-      await geminiService.disconnect();
+      setIsConnected(false);
+      // Turns still being transcribed when the session ends are kept; an AI reply cut off by hanging up is marked as such.
+      flushUserTurn();
+      messageHandlerRef.current?.interrupt();
+      // Closed here rather than after the report so the session length stops at the moment the user hung up.
+      const metrics = speakingMetricsRef.current?.finish() ?? null;
+      speakingMetricsRef.current = null;
+      // Taken before stopping so nothing that happens while the connection closes can change what gets saved.
+      const finalMessages = liveTranscript.getTurns();
+      await liveConnection.stop();
       stopAudio();
+      // Review drills are practice on existing cards, not sessions to score and keep.
+      const review = spokenReviewRef.current;
+      if (review) {
+        spokenReviewRef.current = null;
+        setSpokenReview(null);
+        setLastSpokenReview({ graded: Object.keys(review.graded).length, total: review.cards.length });
+        recordingStore.discardPending();
+        return;
+      }
       setIsAnalyzing(true);
-      const score = await geminiService.generateReport(transcriptLogRef.current);
-      setScoreData(score || { total: 0, fluency: 0, vocabulary: 0, nativeLike: 0, comment: "Error" });
-      setShowFireworks(true);
-      setShowResult(true);
-      setIsAnalyzing(false);
+      try {
+        const progress = missionProgressRef.current;
+        const mission = progress ? missionCatalog.get(progress.missionId) : undefined;
+        let score: ScoreData | null = null;
+        try {
+          score = normalizeScore(await llmProvider.generateReport(formatTurns(finalMessages), mission && progress ? { mission, progress } : null));
+        } catch (e) {
+          // Saved unscored instead; scorePendingSessions grades it later.
+          console.error("Failed to generate report:", e);
+        }
+        setLastSession(finalMessages.length > 0 ? await saveSession(finalMessages, score, metrics) : null);
+        setScoreData(score || { total: 0, fluency: 0, vocabulary: 0, nativeLike: 0, comment: "Error" });
+        setShowFireworks(true);
+        setShowResult(true);
+      } catch (e) {
+        console.error("Failed to finish session:", e);
+        setError("Something went wrong while wrapping up this session. Check your history to see whether it was saved.");
+      } finally {
+        setIsAnalyzing(false);
+      }
   };
 
+  // Returns the stored record, or an unsaved copy if storage failed so the transcript can still be exported.
+  const saveSession = async (sessionMessages: ChatMessage[], score: ScoreData | null, metrics: SpeakingMetrics | null): Promise<SavedSession> => {
+      const draft = {
+        personaId: currentPersonaId,
+        sceneId: currentSceneId,
+        topic: activeSearchTopic || null,
+        imageContext,
+        messages: sessionMessages,
+        mission: missionProgressRef.current,
+        vocabulary: sessionVocabularyRef.current,
+        metrics,
+        score,
+      };
+      try {
+        const { session, pruned, storage } = await sessionRepository.save(draft);
+        if (pruned > 0) setStorageWarning(`Browser storage is almost full, so the ${pruned} oldest session${pruned === 1 ? ' was' : 's were'} removed.`);
+        else if (storage?.nearLimit) setStorageWarning("Browser storage is almost full. Older sessions will be removed automatically.");
+        else setStorageWarning(null);
+        await loadHistory(Math.max(savedSessions.length + 1, HISTORY_PAGE_SIZE));
+        reviewDeck.syncFromSessions([session]).catch(e => console.error("Failed to add review cards:", e));
+        recordingStore.persist(session.id, session.messages.flatMap(m => m.recordingId ? [m.recordingId] : []))
+          .catch(e => console.error("Failed to save voice recordings:", e));
+        return session;
+      } catch (e) {
+        console.error("Failed to save session:", e);
+        setError("Could not save this session to history.");
+        return { ...draft, id: createSessionId(), version: SESSION_SCHEMA_VERSION, date: new Date().toISOString() };
+      }
+  };
+
+  const handleExportTranscript = (session: SavedSession | null, format: TranscriptFormat) => {
+      if (!session || session.messages.length === 0) {
+        setError("There is no transcript to download yet.");
+        return;
+      }
+      downloadTranscript(session, format);
+  };
+
+  const handleDeleteSession = async (id: string) => {
+      await sessionRepository.delete(id);
+      await loadHistory(Math.max(savedSessions.length - 1, HISTORY_PAGE_SIZE));
+  };
+
+  const handleClearHistory = async () => {
+      await sessionRepository.clear();
+      clearCachedReport();
+      setProgressReport(null);
+      setSavedSessions([]);
+      setTotalSessions(0);
+      setStorageWarning(null);
+  };
+
+  const openPersonaEditor = (persona: Persona | null) => {
+      setIsPersonaMenuOpen(false);
+      setEditingPersona(persona);
+      setIsPersonaEditorOpen(true);
+  };
+
+  const handleSavePersona = (draft: PersonaDraft) => {
+      try {
+        const persona = personaCatalog.saveCustom(draft);
+        if (!isConnected) setCurrentPersonaId(persona.id);
+        setIsPersonaEditorOpen(false);
+      } catch (e) {
+        console.error("Failed to save persona:", e);
+        setError("Could not save this persona.");
+      }
+  };
+
+  const handleDeletePersona = (id: string) => {
+      personaCatalog.deleteCustom(id);
+      if (id === currentPersonaId && !isConnected) setCurrentPersonaId(DEFAULT_PERSONA_ID);
+      setIsPersonaEditorOpen(false);
+  };
+
+  const selectScene = (sceneId: string) => {
+      setIsSceneMenuOpen(false);
+      if (sceneId === currentSceneId) return;
+      setCurrentSceneId(sceneId);
+      if (!isConnected) return;
+      const scene = sceneCatalog.resolve(sceneId);
+      liveConnection.updateOptions({ scene });
+      llmProvider.sendContextNote(`(The user just moved the conversation to a new scene. ${describeScene(scene)} Acknowledge the change naturally when you next speak.)`);
+  };
+
+  const openSceneEditor = (scene: Scene | null) => {
+      setIsSceneMenuOpen(false);
+      setEditingScene(scene);
+      setIsSceneEditorOpen(true);
+  };
+
+  const handleSaveScene = async (draft: SceneDraft) => {
+      try {
+        const scene = await sceneCatalog.saveCustom(draft);
+        if (!isConnected) setCurrentSceneId(scene.id);
+        setIsSceneEditorOpen(false);
+      } catch (e) {
+        console.error("Failed to save scene:", e);
+        setError("Could not save this scene.");
+      }
+  };
+
+  const handleDeleteScene = async (id: string) => {
+      try {
+        await sceneCatalog.deleteCustom(id);
+        if (id === currentSceneId) setCurrentSceneId(DEFAULT_SCENE_ID);
+        setIsSceneEditorOpen(false);
+      } catch (e) {
+        console.error("Failed to delete scene:", e);
+        setError("Could not delete this scene.");
+      }
+  };
+
+  // The dashboard needs every session, not just the loaded history page.
+  const openDashboard = async () => {
+      setIsDashboardOpen(true);
+      setDashboardSessions(null);
+      try {
+        setDashboardSessions(await sessionRepository.listAll());
+      } catch (e) {
+        console.error("Failed to load sessions for the dashboard:", e);
+        setIsDashboardOpen(false);
+        setError("Couldn't load your session history.");
+      }
+  };
+
+  const handleSummarize = async (force = false) => {
+      setIsReportOpen(true);
+      setReportError(null);
+      if (!force && progressReport && isReportCurrent(progressReport, savedSessions[0]?.id, totalSessions)) return;
+
+      setIsSummarizing(true);
+      try {
+        const sessions = (await sessionRepository.listAll()).reverse();
+        if (sessions.length === 0) {
+          setReportError("Complete a session first to get a progress report.");
+          return;
+        }
+        const score = normalizeScore(await llmProvider.generateGlobalReport(sessions));
+        if (!score) {
+          setReportError("Couldn't generate your progress report. Please try again.");
+          return;
+        }
+        const report: ProgressReport = {
+          score,
+          generatedAt: new Date().toISOString(),
+          sessionCount: sessions.length,
+          latestSessionId: sessions[sessions.length - 1].id,
+        };
+        cacheReport(report);
+        setProgressReport(report);
+      } catch (e) {
+        console.error("Failed to generate progress report:", e);
+        setReportError("Couldn't load your session history.");
+      } finally {
+        setIsSummarizing(false);
+      }
+  };
+
+  // Give up on a dropped connection: keep whatever was said, score it and save it.
   useEffect(() => {
-    const scene = SCENES[currentSceneId];
-    if (ambientAudioRef.current) { ambientAudioRef.current.pause(); ambientAudioRef.current = null; }
-    if (scene.ambientSoundUrl && (isConnected || showResult)) {
-       const audio = new Audio(scene.ambientSoundUrl); audio.loop = true; audio.volume = 0.2; audio.play().catch(()=>{});
-       ambientAudioRef.current = audio;
+    if (connectionStatus !== 'failed') return;
+    const { turns, liveInput, liveOutput } = liveTranscript.getSnapshot();
+    const hasTranscript = turns.length > 0 || liveInput.trim() || liveOutput.trim();
+    if (hasTranscript) {
+      // Review drills aren't saved as sessions; only the grades given so far are kept.
+      setError(spokenReviewRef.current
+        ? "The connection was lost, so the review drill ended early. Cards you already graded keep their grades."
+        : "The connection was lost, so the session ended early. What you said has been saved.");
+      handleDisconnect();
+    } else {
+      liveConnection.stop();
+      stopAudio();
+      setIsConnected(false);
+      setError("The connection was lost and couldn't be restored. Check your network and try again.");
+    }
+  }, [connectionStatus]);
+
+  const scorePendingSessions = useCallback(async () => {
+    try {
+      const pending = (await sessionRepository.listAll())
+        .filter(s => !s.score && s.messages.some(m => m.role === 'user'))
+        .slice(0, PENDING_SCORE_BATCH);
+      let updated = false;
+      for (const session of pending) {
+        const mission = session.mission ? missionCatalog.get(session.mission.missionId) : undefined;
+        const score = normalizeScore(await llmProvider.generateReport(formatTurns(session.messages), mission && session.mission ? { mission, progress: session.mission } : null));
+        if (!score) break; // Still offline; try again later.
+        await sessionRepository.update({ ...session, score });
+        updated = true;
+      }
+      if (updated) loadHistory();
+    } catch (e) {
+      console.error("Failed to score pending sessions:", e);
     }
-    return () => { if (ambientAudioRef.current) ambientAudioRef.current.pause(); };
-  }, [currentSceneId, isConnected, showResult]);
+  }, [loadHistory]);
+
+  useEffect(() => {
+    scorePendingSessions();
+    window.addEventListener('online', scorePendingSessions);
+    return () => window.removeEventListener('online', scorePendingSessions);
+  }, [scorePendingSessions]);
 
-  const currentScene = SCENES[currentSceneId];
-  const currentPersona = PERSONAS[currentPersonaId];
+  useEffect(() => {
+    if (!isConnected || micState.mode !== 'push-to-talk') return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      micController.setTalkHeld(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY) return;
+      micController.setTalkHeld(false);
+    };
+    const onBlur = () => micController.setTalkHeld(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [isConnected, micState.mode]);
+
+  useEffect(() => {
+    sceneCatalog.load();
+    // Picks up cards from sessions saved before the review deck existed (or while it failed to update).
+    sessionRepository.listAll()
+      .then(sessions => reviewDeck.syncFromSessions(sessions))
+      .catch(e => console.error("Failed to sync review deck:", e));
+  }, []);
+
+  const startTextReview = () => setTextReviewCards(reviewDeck.getDue(TEXT_REVIEW_SIZE));
+
+  const startSpokenReview = () => {
+      const cards = reviewDeck.getDue(SPOKEN_REVIEW_SIZE);
+      if (cards.length) connectToGemini(cards);
+  };
+
+  const handleGradeCard = (id: string, quality: ReviewQuality) => {
+      reviewDeck.grade(id, quality).catch(e => {
+        console.error("Failed to save review grade:", e);
+        setError("Could not save your review progress.");
+      });
+  };
+
+  // Scene changes, including the model's changeScene calls, crossfade to the new scene's ambience.
+  useEffect(() => {
+    if (isConnected || showResult) ambienceEngine.play(sceneCatalog.resolve(currentSceneId));
+    else ambienceEngine.stop();
+  }, [currentSceneId, scenes, isConnected, showResult]);
+
+  // The background steps back while either side is talking.
+  useEffect(() => { outputMixer.setDucked(isAiSpeaking || isUserSpeaking); }, [isAiSpeaking, isUserSpeaking]);
+
+  const currentScene = sceneCatalog.resolve(currentSceneId);
+  const currentPersona = personaCatalog.resolve(currentPersonaId);
+  const activeMission = missionProgress ? missionCatalog.get(missionProgress.missionId) : undefined;
 
   return (
     <div className="relative w-full h-screen overflow-hidden text-white bg-black">
       <ShaderBackground scene={currentScene} />
       {showFireworks && <Fireworks />}
-      {showResult && scoreData && <SessionResult data={scoreData} onClose={() => {setShowResult(false); setShowFireworks(false);} } onDownloadTranscript={()=>{}} />}
+      {showResult && scoreData && <SessionResult data={scoreData} onClose={() => {setShowResult(false); setShowFireworks(false);} } onDownloadTranscript={(format) => handleExportTranscript(lastSession, format)} mission={lastSession?.mission ? missionCatalog.get(lastSession.mission.missionId) : null} missionProgress={lastSession?.mission} corrections={collectCorrections(lastSession?.messages ?? [])} metrics={lastSession?.metrics} />}
       
-      <HistoryDrawer isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} sessions={savedSessions} onClear={()=>setSavedSessions([])} onSummarize={()=>{}} isSummarizing={false} />
+      <HistoryDrawer isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} sessions={savedSessions} totalSessions={totalSessions} onLoadMore={handleLoadMoreHistory} storageWarning={storageWarning} onDelete={handleDeleteSession} onExport={handleExportTranscript} onClear={handleClearHistory} onSummarize={() => handleSummarize()} isSummarizing={isSummarizing} onOpenDashboard={openDashboard} />
+      {isDashboardOpen && <ProgressDashboard sessions={dashboardSessions} onClose={() => setIsDashboardOpen(false)} />}
+      {isSceneEditorOpen && <SceneEditor scene={editingScene} onSave={handleSaveScene} onDelete={handleDeleteScene} onClose={() => setIsSceneEditorOpen(false)} />}
+      {isPersonaEditorOpen && <PersonaEditor persona={editingPersona} onSave={handleSavePersona} onDelete={handleDeletePersona} onClose={() => setIsPersonaEditorOpen(false)} />}
+      {isReportOpen && <ProgressReportView report={progressReport} isLoading={isSummarizing} error={reportError} onRegenerate={() => handleSummarize(true)} onClose={() => setIsReportOpen(false)} />}
 
-      { (messages.length > 0 || liveInput || liveOutput) && <TranscriptView messages={messages} liveInput={liveInput} liveOutput={liveOutput} /> }
+      {textReviewCards && <ReviewSession cards={textReviewCards} onGrade={handleGradeCard} onClose={() => setTextReviewCards(null)} />}
+      {isConnected && spokenReview && <SpokenReviewPanel cards={spokenReview.cards} graded={spokenReview.graded} />}
+      {isConnected && activeMission && missionProgress && <MissionChecklist mission={activeMission} progress={missionProgress} />}
+      { (transcript.turns.length > 0 || transcript.liveInput || transcript.liveOutput || (isConnected && isTypingMode)) && (
+        <TranscriptView
+          messages={transcript.turns}
+          liveInput={transcript.liveInput}
+          liveOutput={transcript.liveOutput}
+          footer={isConnected && isTypingMode && (
+            <ChatComposer onSend={sendTypedTurn} textReplies={textReplies} onTextRepliesChange={changeTextReplies} micUnavailable={isMicUnavailable} disabled={isSwitchingPersona} />
+          )}
+        />
+      )}
 
       <div className={`relative z-10 w-full h-full flex flex-col justify-between p-6 ${showResult ? 'opacity-20 pointer-events-none' : 'opacity-100'}`}>
         <div className="flex justify-between items-start">
@@ -309,15 +943,57 @@ const App: React.FC = () => {
                 </button>
                 {isPersonaMenuOpen && (
                     <div className="absolute top-full left-0 mt-2 w-64 bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl overflow-hidden shadow-2xl z-50">
-                        {Object.values(PERSONAS).map(p => (
-                            <button key={p.id} onClick={() => { setCurrentPersonaId(p.id); setIsPersonaMenuOpen(false); }} className="w-full p-3 flex items-center gap-3 hover:bg-white/10">
-                                <img src={p.avatarUrl} className="w-8 h-8 rounded-full" /><div className="text-left font-bold text-sm">{p.name}</div>
-                            </button>
+                        {personas.map(p => (
+                            <div key={p.id} className="flex items-center hover:bg-white/10 group">
+                                <button onClick={() => { setIsPersonaMenuOpen(false); if (p.id === currentPersonaId) return; if (isConnected) switchPersona(p.id); else setCurrentPersonaId(p.id); }} className="flex-1 p-3 flex items-center gap-3">
+                                    <img src={p.avatarUrl} className="w-8 h-8 rounded-full object-cover" /><div className="text-left font-bold text-sm">{p.name}</div>
+                                </button>
+                                {p.isCustom && (
+                                    <button onClick={() => openPersonaEditor(p)} className="p-3 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity" title="Edit persona">
+                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                                    </button>
+                                )}
+                            </div>
                         ))}
+                        <button onClick={() => openPersonaEditor(null)} className="w-full p-3 text-left text-sm font-semibold text-indigo-300 hover:bg-white/10 border-t border-white/10">
+                            + Create persona
+                        </button>
                     </div>
                 )}
             </div>
             <div className="flex gap-4">
+                <div className="relative">
+                    <button
+                      onClick={() => setIsSceneMenuOpen(!isSceneMenuOpen)}
+                      className="bg-black/40 hover:bg-black/60 backdrop-blur-md border border-white/10 rounded-2xl p-3 flex items-center gap-2"
+                      title="Change scene"
+                    >
+                      <svg className="w-5 h-5 text-indigo-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                      <span className="hidden md:inline">{currentScene.name}</span>
+                    </button>
+                    {isSceneMenuOpen && (
+                        <div className="absolute top-full right-0 mt-2 w-64 max-h-96 overflow-y-auto scrollbar-hide bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl z-50">
+                            {scenes.map(s => (
+                                <div key={s.id} className={`flex items-center hover:bg-white/10 group ${s.id === currentSceneId ? 'bg-white/5' : ''}`}>
+                                    <button onClick={() => selectScene(s.id)} className="flex-1 p-3 text-left">
+                                        <div className="font-bold text-sm">{s.name}</div>
+                                        {s.brief.setting && <div className="text-[10px] text-gray-400 line-clamp-1">{s.brief.setting}</div>}
+                                    </button>
+                                    {s.isCustom && (
+                                        <button onClick={() => openSceneEditor(s)} className="p-3 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity" title="Edit scene">
+                                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                            <button onClick={() => openSceneEditor(null)} className="w-full p-3 text-left text-sm font-semibold text-indigo-300 hover:bg-white/10 border-t border-white/10">
+                                + Create scene
+                            </button>
+                        </div>
+                    )}
+                </div>
                 <button 
                   onClick={() => setIsHistoryOpen(true)} 
                   className="bg-black/40 hover:bg-black/60 backdrop-blur-md border border-white/10 rounded-2xl p-3 flex items-center gap-2"
@@ -327,12 +1003,17 @@ const App: React.FC = () => {
                   </svg>
                   <span className="hidden md:inline">History</span>
                 </button>
-                <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl px-4 py-3 text-xs font-mono">{isConnected ? 'LIVE' : 'OFFLINE'}</div>
+                <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl px-4 py-3 text-xs font-mono">{isSwitchingPersona ? 'SWITCHING' : connectionStatus === 'reconnecting' ? 'RECONNECTING' : isConnected ? 'LIVE' : 'OFFLINE'}</div>
             </div>
         </div>
 
         <div className={`flex-1 flex flex-col items-center gap-8 justify-center`}>
             {error && <div className="bg-red-500/80 px-6 py-3 rounded-lg">{error}</div>}
+            {isConnected && connectionStatus === 'reconnecting' && (
+                <div className="bg-amber-500/20 border border-amber-500/40 text-amber-200 px-6 py-3 rounded-lg text-sm animate-pulse">
+                    Connection lost. Reconnecting… (attempt {reconnectAttempt} of {MAX_RECONNECT_ATTEMPTS})
+                </div>
+            )}
             {isAnalyzing && <h2 className="text-2xl font-bold animate-pulse">Analyzing...</h2>}
             {!isConnected && !isAnalyzing && (
                  <div className="w-full text-center space-y-6">
@@ -373,13 +1054,25 @@ const App: React.FC = () => {
                         )}
                     </div>
 
+                    <MissionPicker missions={missionCatalog.getAll()} selectedId={activeMissionId} onSelect={selectMission} />
+
+                    <ReviewLauncher cards={reviewCards} lastSpokenReview={lastSpokenReview} onStartText={startTextReview} onStartSpoken={startSpokenReview} />
+
                     <FAQSection />
                  </div>
             )}
             {isConnected && (
                 <div className="w-full max-w-2xl space-y-4">
-                    <div className="flex-1 h-20 bg-black/30 backdrop-blur-sm rounded-lg border border-indigo-500/30"><AudioVisualizer isPlaying={isAiSpeaking} color="#818CF8" /></div>
-                    <div className="flex-1 h-20 bg-black/30 backdrop-blur-sm rounded-lg border border-emerald-500/30"><AudioVisualizer isPlaying={isUserSpeaking} color="#34D399" /></div>
+                    <div className="flex justify-end">
+                        <button
+                            onClick={() => setVisualizerMode(visualizerMode === 'waveform' ? 'bars' : 'waveform')}
+                            className="text-[10px] font-bold uppercase tracking-widest text-gray-400 hover:text-white bg-black/30 border border-white/10 rounded-full px-3 py-1"
+                        >
+                            {visualizerMode === 'waveform' ? 'Show spectrum' : 'Show waveform'}
+                        </button>
+                    </div>
+                    <div className="flex-1 h-20 bg-black/30 backdrop-blur-sm rounded-lg border border-indigo-500/30 flex items-center"><AudioVisualizer analyser={outputAnalyser} isPlaying={isAiSpeaking} mode={visualizerMode} color="#818CF8" height="h-16" /></div>
+                    <div className="flex-1 h-20 bg-black/30 backdrop-blur-sm rounded-lg border border-emerald-500/30 flex items-center"><AudioVisualizer analyser={micAnalyser} isPlaying={isUserSpeaking} mode={visualizerMode} color="#34D399" height="h-16" /></div>
                 </div>
             )}
         </div>
@@ -430,29 +1123,43 @@ const App: React.FC = () => {
                     </svg>
                 </button>
                 <button 
-                  onClick={connectToGemini} 
+                  onClick={() => connectToGemini()} 
                   className="px-10 py-5 bg-white text-black font-black rounded-full hover:scale-105 transition-all text-lg shadow-2xl"
                 >
                   Start Speaking
                 </button>
               </div>
             ) : (
-                <div className="flex items-center gap-4">
-                    <button 
-                        onClick={() => setIsMicOn(!isMicOn)} 
-                        className={`p-5 rounded-full backdrop-blur-md border transition-all ${isMicOn ? 'bg-white/10' : 'bg-red-500/20 border-red-500'}`}
-                    >
-                      {isMicOn ? (
-                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
-                        </svg>
-                      ) : (
+                <div className="flex items-end gap-4">
+                    {!isMicUnavailable && (
+                      <MicControls
+                          state={micState}
+                          onToggleMute={() => micController.toggleMute()}
+                          onTalkHeld={(held) => micController.setTalkHeld(held)}
+                          onModeChange={(mode) => micController.setMode(mode)}
+                          onReleaseTrackChange={(release) => micController.setReleaseTrackOnMute(release)}
+                          onAllowBargeInChange={changeAllowBargeIn}
+                          recordVoice={recordVoice}
+                          onRecordVoiceChange={(record) => voiceRecorder.setEnabled(record)}
+                      />
+                    )}
+                    {!isMicUnavailable && (
+                      <button
+                          onClick={() => setTypingMode(!isTypingMode)}
+                          className={`p-5 rounded-full backdrop-blur-md border transition-all ${isTypingMode ? 'bg-indigo-500/30 border-indigo-400' : 'bg-white/10 border-white/10'}`}
+                          title={isTypingMode ? 'Back to speaking' : 'Type instead'}
+                      >
                         <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" stroke="#F87171" />
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" stroke="#F87171" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7h16a1 1 0 011 1v8a1 1 0 01-1 1H4a1 1 0 01-1-1V8a1 1 0 011-1zm3 3h.01M11 10h.01M15 10h.01M8 14h8" />
                         </svg>
-                      )}
-                    </button>
+                      </button>
+                    )}
+                    <OutputControls
+                        settings={mixerSettings}
+                        onChange={(changes) => outputMixer.update(changes)}
+                        canReplay={!isAiSpeaking && !!messageHandlerRef.current?.canReplay}
+                        onReplay={() => messageHandlerRef.current?.replayLastSentence()}
+                    />
                     <button onClick={handleDisconnect} className="px-10 py-5 bg-red-500 text-white font-bold rounded-full">End Session</button>
                 </div>
             )}
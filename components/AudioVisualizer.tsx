@@ -1,18 +1,21 @@
 import React, { useEffect, useRef } from 'react';
 
+export type VisualizerMode = 'waveform' | 'bars';
+
 interface AudioVisualizerProps {
+  analyser: AnalyserNode | null;
   isPlaying: boolean;
+  mode?: VisualizerMode;
   color?: string;
   height?: string;
 }
 
-const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isPlaying, color = '#60A5FA', height = 'h-12' }) => {
-  // Simulated visualizer for aesthetic purposes since extracting real-time analyzer node from 
-  // the complex audio context setup in a single file is tricky.
-  // In a full production app, we'd hook into the AudioContext AnalyzerNode.
-  
+const IDLE_COLOR = '#4B5563'; // Gray
+const BAR_COUNT = 48;
+
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isPlaying, mode = 'waveform', color = '#60A5FA', height = 'h-12' }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -20,58 +23,75 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isPlaying, color = '#
     if (!ctx) return;
 
     let animationId: number;
-    let offset = 0;
+    const timeData = analyser ? new Uint8Array(analyser.fftSize) : null;
+    const freqData = analyser ? new Uint8Array(analyser.frequencyBinCount) : null;
+
+    const drawFlatLine = () => {
+      ctx.beginPath();
+      ctx.moveTo(0, canvas.height / 2);
+      ctx.lineTo(canvas.width, canvas.height / 2);
+      ctx.strokeStyle = IDLE_COLOR;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    };
+
+    const drawWaveform = (stroke: string) => {
+      analyser!.getByteTimeDomainData(timeData!);
+      const step = canvas.width / timeData!.length;
+      ctx.beginPath();
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = stroke;
+      timeData!.forEach((v, i) => {
+        const y = (v / 255) * canvas.height;
+        if (i === 0) ctx.moveTo(0, y);
+        else ctx.lineTo(i * step, y);
+      });
+      ctx.stroke();
+    };
+
+    const drawBars = (fill: string) => {
+      analyser!.getByteFrequencyData(freqData!);
+      // Speech energy sits in the lower half of the spectrum, so the bars only cover that range.
+      const usableBins = Math.floor(freqData!.length / 2);
+      const binsPerBar = Math.max(1, Math.floor(usableBins / BAR_COUNT));
+      const barWidth = canvas.width / BAR_COUNT;
+      ctx.fillStyle = fill;
+      for (let bar = 0; bar < BAR_COUNT; bar++) {
+        let sum = 0;
+        for (let i = 0; i < binsPerBar; i++) sum += freqData![bar * binsPerBar + i] ?? 0;
+        const magnitude = sum / binsPerBar / 255;
+        const barHeight = Math.max(2, magnitude * canvas.height);
+        ctx.fillRect(bar * barWidth + 1, (canvas.height - barHeight) / 2, barWidth - 2, barHeight);
+      }
+    };
 
     const draw = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
       // Resize check
-      if (canvas.width !== canvas.clientWidth) {
+      if (canvas.width !== canvas.clientWidth || canvas.height !== canvas.clientHeight) {
           canvas.width = canvas.clientWidth;
           canvas.height = canvas.clientHeight;
       }
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-      if (!isPlaying) {
-          // Flat line
-          ctx.beginPath();
-          ctx.moveTo(0, canvas.height / 2);
-          ctx.lineTo(canvas.width, canvas.height / 2);
-          ctx.strokeStyle = '#4B5563'; // Gray
-          ctx.stroke();
+      if (!analyser) {
+          drawFlatLine();
           return;
       }
 
-      ctx.beginPath();
-      ctx.lineWidth = 2;
-      ctx.strokeStyle = color;
-
-      const width = canvas.width;
-      const height = canvas.height;
-      const centerY = height / 2;
-
-      ctx.moveTo(0, centerY);
-
-      for (let x = 0; x < width; x++) {
-        // Create a waveform look using sine waves
-        const y = centerY + 
-                  Math.sin((x * 0.02) + offset) * (height * 0.3) * Math.sin(x * 0.01) +
-                  Math.sin((x * 0.05) + offset * 2) * (height * 0.1);
-        ctx.lineTo(x, y);
-      }
-      
-      ctx.stroke();
-      offset += 0.2;
+      const paint = isPlaying ? color : IDLE_COLOR;
+      if (mode === 'bars') drawBars(paint);
+      else drawWaveform(paint);
       animationId = requestAnimationFrame(draw);
     };
 
     draw();
 
     return () => cancelAnimationFrame(animationId);
-  }, [isPlaying, color]);
+  }, [analyser, isPlaying, mode, color]);
 
   return (
     <canvas ref={canvasRef} className={`w-full ${height}`} />
   );
 };
 
-export default AudioVisualizer;
\ No newline at end of file
+export default AudioVisualizer;
@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface BarChartProps {
+  bars: { label: string; value: number }[];
+  color?: string;
+  height?: number;
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 320;
+const PAD = { top: 12, bottom: 18 };
+
+const BarChart: React.FC<BarChartProps> = ({ bars, color = '#818CF8', height = 120, formatValue = v => String(Math.round(v)) }) => {
+  const max = Math.max(1, ...bars.map(b => b.value));
+  const slot = WIDTH / Math.max(1, bars.length);
+  const barW = Math.min(24, slot * 0.7);
+  const plotH = height - PAD.top - PAD.bottom;
+  const labelEvery = Math.max(1, Math.ceil(bars.length / 7));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img">
+      {bars.map((bar, i) => {
+        const h = (bar.value / max) * plotH;
+        const cx = slot * i + slot / 2;
+        return (
+          <g key={i}>
+            <rect x={cx - barW / 2} y={PAD.top + plotH - h} width={barW} height={Math.max(h, bar.value > 0 ? 1 : 0)} rx="2" fill={color} opacity={bar.value > 0 ? 0.9 : 0.2}>
+              <title>{`${bar.label}: ${formatValue(bar.value)}`}</title>
+            </rect>
+            {bar.value > 0 && <text x={cx} y={PAD.top + plotH - h - 3} textAnchor="middle" fontSize="7" fill="rgba(255,255,255,0.6)">{formatValue(bar.value)}</text>}
+            {i % labelEvery === 0 && <text x={cx} y={height - 4} textAnchor="middle" fontSize="8" fill="rgba(255,255,255,0.4)">{bar.label}</text>}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
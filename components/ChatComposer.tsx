@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+
+interface ChatComposerProps {
+  onSend: (text: string) => void;
+  textReplies: boolean;
+  onTextRepliesChange: (textReplies: boolean) => void;
+  micUnavailable?: boolean;
+  disabled?: boolean; // While the connection is being replaced
+}
+
+const ChatComposer: React.FC<ChatComposerProps> = ({ onSend, textReplies, onTextRepliesChange, micUnavailable, disabled }) => {
+  const [draft, setDraft] = useState('');
+
+  const send = () => {
+    if (!draft.trim() || disabled) return;
+    onSend(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="mt-2 p-2 bg-black/60 backdrop-blur-md border border-white/10 rounded-2xl shadow-xl">
+      {micUnavailable && <p className="px-2 pb-2 text-[10px] text-amber-300">No microphone available, so this session is typed.</p>}
+      <form className="flex items-end gap-2" onSubmit={(e) => { e.preventDefault(); send(); }}>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); send(); } }}
+          rows={1}
+          autoFocus
+          placeholder="Type your reply…"
+          className="flex-1 resize-none bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 ring-indigo-500/50 max-h-24"
+        />
+        <button type="submit" disabled={!draft.trim() || disabled} className="p-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-xl disabled:opacity-40" title="Send">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M12 5l7 7-7 7" /></svg>
+        </button>
+      </form>
+      <label className="flex items-center gap-2 px-2 pt-2 text-[10px] font-bold uppercase tracking-wide text-gray-400 cursor-pointer select-none">
+        <input type="checkbox" checked={textReplies} disabled={disabled} onChange={(e) => onTextRepliesChange(e.target.checked)} className="accent-indigo-500" />
+        Text-only replies
+      </label>
+    </div>
+  );
+};
+
+export default ChatComposer;
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { Correction, CorrectionCategory } from '../types';
+
+const CATEGORY_STYLES: Record<CorrectionCategory, string> = {
+  grammar: 'text-rose-300 bg-rose-500/10 border-rose-500/30',
+  vocabulary: 'text-blue-300 bg-blue-500/10 border-blue-500/30',
+  'word-choice': 'text-amber-300 bg-amber-500/10 border-amber-500/30',
+  pronunciation: 'text-purple-300 bg-purple-500/10 border-purple-500/30',
+  naturalness: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/30',
+};
+
+interface CorrectionCardProps {
+  correction: Correction;
+  defaultOpen?: boolean;
+}
+
+const CorrectionCard: React.FC<CorrectionCardProps> = ({ correction, defaultOpen = false }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+
+  return (
+    <button
+      onClick={() => setIsOpen(!isOpen)}
+      className="w-full text-left bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs hover:bg-black/60 transition-colors"
+    >
+      <div className="flex items-start gap-2">
+        <span className={`shrink-0 px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase tracking-wide ${CATEGORY_STYLES[correction.category]}`}>
+          {correction.category}
+        </span>
+        <span className="leading-relaxed">
+          <span className="line-through text-gray-500">{correction.original}</span>
+          <span className="text-gray-500 mx-1">→</span>
+          <span className="text-white font-semibold">{correction.corrected}</span>
+        </span>
+      </div>
+      {isOpen && correction.explanation && (
+        <p className="mt-2 text-gray-400 leading-relaxed animate-fade-in">{correction.explanation}</p>
+      )}
+    </button>
+  );
+};
+
+export default CorrectionCard;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { ChatMessage } from '../types';
+import { splitHeardText } from '../utils/transcriptExport';
+
+interface HeardTextProps {
+  message: ChatMessage;
+}
+
+// A turn's text, with the part the user never heard (because they cut in) struck through.
+const HeardText: React.FC<HeardTextProps> = ({ message }) => {
+  const { heard, unheard } = splitHeardText(message);
+  return (
+    <>
+      {heard}
+      {unheard && <span className="text-gray-500 line-through decoration-gray-600" title="Not heard: you cut in here">{unheard}</span>}
+    </>
+  );
+};
+
+export default HeardText;
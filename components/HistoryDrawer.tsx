@@ -1,16 +1,30 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { SavedSession } from '../types';
+import { sceneCatalog } from '../services/sceneCatalog';
+import { personaCatalog } from '../services/personaCatalog';
+import { TranscriptFormat } from '../utils/transcriptExport';
+import TranscriptExportMenu from './TranscriptExportMenu';
+import VoiceReplayControls from './VoiceReplayControls';
+import HeardText from './HeardText';
 
 interface HistoryDrawerProps {
   isOpen: boolean;
   onClose: () => void;
   sessions: SavedSession[];
+  totalSessions: number;
+  onLoadMore: () => void;
+  storageWarning?: string | null;
+  onDelete: (id: string) => void;
+  onExport: (session: SavedSession, format: TranscriptFormat) => void;
   onClear: () => void;
   onSummarize: () => void;
   isSummarizing: boolean;
+  onOpenDashboard: () => void;
 }
 
-const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ isOpen, onClose, sessions, onClear, onSummarize, isSummarizing }) => {
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ isOpen, onClose, sessions, totalSessions, onLoadMore, storageWarning, onDelete, onExport, onClear, onSummarize, isSummarizing, onOpenDashboard }) => {
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
   return (
     <div 
       className={`fixed inset-y-0 right-0 z-50 w-full max-w-sm bg-gray-900 border-l border-white/10 shadow-2xl transform transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
@@ -20,6 +34,17 @@ const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ isOpen, onClose, sessions
         <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/20">
           <h2 className="text-xl font-bold text-white">History</h2>
           <div className="flex items-center gap-2">
+            {sessions.length > 0 && (
+              <button
+                onClick={onOpenDashboard}
+                className="p-2 hover:bg-white/10 rounded-full transition-colors text-indigo-300"
+                title="Progress Dashboard"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                </svg>
+              </button>
+            )}
             {sessions.length > 0 && (
               <button 
                 onClick={onSummarize} 
@@ -40,6 +65,12 @@ const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ isOpen, onClose, sessions
           </div>
         </div>
 
+        {storageWarning && (
+          <div className="px-6 py-3 bg-amber-500/10 border-b border-amber-500/30 text-xs text-amber-300">
+            {storageWarning}
+          </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
           {sessions.length === 0 ? (
@@ -49,30 +80,70 @@ const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ isOpen, onClose, sessions
             </div>
           ) : (
             sessions.map((session) => (
-              <div key={session.id} className="bg-white/5 rounded-xl border border-white/5 overflow-hidden group hover:border-indigo-500/30 transition-colors">
-                <div className="p-4 bg-white/5 border-b border-white/5 flex justify-between items-center">
-                  <span className="text-xs font-mono text-indigo-300">
-                    {new Date(session.date).toLocaleDateString()} {new Date(session.date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
-                  </span>
-                  {session.score && (
-                    <span className="text-xs px-2 py-0.5 bg-green-500/20 text-green-400 rounded-full border border-green-500/30">
-                      Score: {session.score.total}
+              <div key={session.id} className="bg-white/5 rounded-xl border border-white/5 group hover:border-indigo-500/30 transition-colors">
+                <div className="p-4 bg-white/5 rounded-t-xl border-b border-white/5 flex justify-between items-center">
+                  <div className="flex flex-col">
+                    <span className="text-xs font-mono text-indigo-300">
+                      {new Date(session.date).toLocaleDateString()} {new Date(session.date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                     </span>
-                  )}
+                    <span className="text-[10px] text-gray-500">
+                      {personaCatalog.nameOf(session.personaId)} · {sceneCatalog.resolve(session.sceneId).name}{session.topic ? ` · ${session.topic}` : ''}
+                    </span>
+                  </div>
+                  <div className="relative flex items-center gap-2">
+                    {exportingId === session.id && (
+                      <TranscriptExportMenu
+                        className="absolute top-full right-0 mt-2 w-48"
+                        onSelect={(format) => { setExportingId(null); onExport(session, format); }}
+                      />
+                    )}
+                    {session.score && (
+                      <span className="text-xs px-2 py-0.5 bg-green-500/20 text-green-400 rounded-full border border-green-500/30">
+                        Score: {session.score.total}{session.score.cefrLevel ? ` · ${session.score.cefrLevel}` : ''}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => setExportingId(exportingId === session.id ? null : session.id)}
+                      className="p-1 rounded-full text-gray-500 hover:text-indigo-300 hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Export transcript"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => onDelete(session.id)}
+                      className="p-1 rounded-full text-gray-500 hover:text-red-400 hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete session"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
                 </div>
                 <div className="p-4 space-y-3 max-h-60 overflow-y-auto scrollbar-hide">
                   {session.messages.map((msg, idx) => (
                     <div key={idx} className={`text-sm leading-relaxed ${msg.role === 'user' ? 'text-gray-400' : 'text-gray-200'}`}>
                       <span className={`text-[10px] uppercase font-bold mr-2 tracking-tighter ${msg.role === 'user' ? 'text-indigo-400' : 'text-emerald-400'}`}>
-                        {msg.role === 'user' ? 'You' : 'AI'}
+                        {msg.role === 'user' ? 'You' : personaCatalog.nameOf(msg.personaId)}
                       </span>
-                      {msg.text}
+                      <HeardText message={msg} />{msg.interrupted && '…'}
+                      {msg.recordingId && <VoiceReplayControls message={msg} />}
                     </div>
                   ))}
                 </div>
               </div>
             ))
           )}
+          {sessions.length < totalSessions && (
+            <button
+              onClick={onLoadMore}
+              className="w-full py-2 text-xs font-semibold text-indigo-300 hover:text-white hover:bg-white/5 rounded-xl transition-colors"
+            >
+              Load older sessions ({totalSessions - sessions.length} more)
+            </button>
+          )}
         </div>
 
         {/* Footer */}
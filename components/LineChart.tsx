@@ -0,0 +1,63 @@
+import React from 'react';
+
+export interface LineSeries {
+  label: string;
+  color: string; // Any SVG stroke colour
+  values: (number | undefined)[]; // One per x position; gaps are skipped
+}
+
+interface LineChartProps {
+  series: LineSeries[];
+  xLabels: string[];
+  maxValue?: number;
+  height?: number;
+}
+
+const WIDTH = 320;
+const PAD = { top: 8, right: 8, bottom: 18, left: 24 };
+
+// Minimal SVG line chart; the dashboard only needs a handful of points, so no charting library.
+const LineChart: React.FC<LineChartProps> = ({ series, xLabels, maxValue = 100, height = 140 }) => {
+  const count = xLabels.length;
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = height - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (count <= 1 ? plotW / 2 : (i / (count - 1)) * plotW);
+  const y = (v: number) => PAD.top + plotH - (Math.min(v, maxValue) / maxValue) * plotH;
+  const labelEvery = Math.max(1, Math.ceil(count / 6));
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img">
+        {[0, 0.5, 1].map(f => (
+          <g key={f}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(maxValue * f)} y2={y(maxValue * f)} stroke="rgba(255,255,255,0.08)" />
+            <text x={PAD.left - 4} y={y(maxValue * f) + 3} textAnchor="end" fontSize="8" fill="rgba(255,255,255,0.4)">{Math.round(maxValue * f)}</text>
+          </g>
+        ))}
+        {xLabels.map((label, i) => i % labelEvery === 0 && (
+          <text key={i} x={x(i)} y={height - 4} textAnchor="middle" fontSize="8" fill="rgba(255,255,255,0.4)">{label}</text>
+        ))}
+        {series.map(s => {
+          const points = s.values.map((v, i) => v === undefined ? null : `${x(i)},${y(v)}`).filter(Boolean);
+          return (
+            <g key={s.label}>
+              {points.length > 1 && <polyline points={points.join(' ')} fill="none" stroke={s.color} strokeWidth="1.5" strokeLinejoin="round" />}
+              {s.values.map((v, i) => v !== undefined && <circle key={i} cx={x(i)} cy={y(v)} r="2" fill={s.color} />)}
+            </g>
+          );
+        })}
+      </svg>
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-3 mt-1">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1 text-[10px] text-gray-400">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />{s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineChart;
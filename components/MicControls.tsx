@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { MicState, MicMode } from '../services/micController';
+
+interface MicControlsProps {
+  state: MicState;
+  onToggleMute: () => void;
+  onTalkHeld: (held: boolean) => void;
+  onModeChange: (mode: MicMode) => void;
+  onReleaseTrackChange: (release: boolean) => void;
+  onAllowBargeInChange: (allow: boolean) => void;
+  recordVoice: boolean;
+  onRecordVoiceChange: (record: boolean) => void;
+}
+
+const MicControls: React.FC<MicControlsProps> = ({ state, onToggleMute, onTalkHeld, onModeChange, onReleaseTrackChange, onAllowBargeInChange, recordVoice, onRecordVoiceChange }) => {
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  const status = state.muted
+    ? { label: 'Muted', dot: 'bg-red-500', text: 'text-red-300' }
+    : !state.capturing
+      ? { label: 'No mic input', dot: 'bg-amber-500', text: 'text-amber-300' }
+      : state.transmitting
+        ? { label: 'On air', dot: 'bg-emerald-400 animate-pulse', text: 'text-emerald-300' }
+        : { label: 'Hold Space to talk', dot: 'bg-gray-500', text: 'text-gray-400' };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md border border-white/10 rounded-full px-3 py-1">
+        <span className={`w-2 h-2 rounded-full ${status.dot}`} />
+        <span className={`text-[10px] font-bold uppercase tracking-widest ${status.text}`}>{status.label}</span>
+      </div>
+
+      <div className="relative flex items-center gap-4">
+        <button
+            onClick={onToggleMute}
+            className={`p-5 rounded-full backdrop-blur-md border transition-all ${!state.muted ? 'bg-white/10' : 'bg-red-500/20 border-red-500'}`}
+            title={state.muted ? 'Unmute' : 'Mute'}
+        >
+          {!state.muted ? (
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+            </svg>
+          ) : (
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" stroke="#F87171" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" stroke="#F87171" />
+            </svg>
+          )}
+        </button>
+
+        {state.mode === 'push-to-talk' && (
+          <button
+            onPointerDown={() => onTalkHeld(true)}
+            onPointerUp={() => onTalkHeld(false)}
+            onPointerLeave={() => onTalkHeld(false)}
+            disabled={state.muted}
+            className={`px-6 py-5 rounded-full font-bold text-sm select-none touch-none transition-all border ${state.talkHeld ? 'bg-emerald-500 border-emerald-400 scale-105' : 'bg-white/10 border-white/10'} ${state.muted ? 'opacity-40' : ''}`}
+          >
+            Hold to talk
+          </button>
+        )}
+
+        <button
+          onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+          className="p-3 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 text-gray-400"
+          title="Microphone settings"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+          </svg>
+        </button>
+
+        {isSettingsOpen && (
+          <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-64 bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl p-3 space-y-3 shadow-2xl z-50 text-left">
+            <div className="flex bg-white/5 rounded-lg p-1 text-xs font-semibold">
+              {(['open', 'push-to-talk'] as MicMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onModeChange(mode)}
+                  className={`flex-1 py-1.5 rounded-md transition-colors ${state.mode === mode ? 'bg-indigo-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {mode === 'open' ? 'Open mic' : 'Push to talk'}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={state.releaseTrackOnMute} onChange={(e) => onReleaseTrackChange(e.target.checked)} />
+              Turn off the microphone completely while muted
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={state.allowBargeIn} onChange={(e) => onAllowBargeInChange(e.target.checked)} />
+              Let me interrupt my partner by talking over them
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={recordVoice} onChange={(e) => onRecordVoiceChange(e.target.checked)} />
+              Record my turns on this device so I can listen back
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MicControls;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Mission, MissionProgress } from '../types';
+
+interface MissionChecklistProps {
+  mission: Mission;
+  progress: MissionProgress;
+}
+
+const MissionChecklist: React.FC<MissionChecklistProps> = ({ mission, progress }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const doneCount = mission.objectives.filter(o => progress.completedObjectiveIds.includes(o.id)).length;
+
+  return (
+    <div className="fixed right-4 md:right-6 top-24 z-20 w-72 bg-black/50 backdrop-blur-md border border-white/10 rounded-2xl shadow-2xl animate-fade-in">
+      <button onClick={() => setIsCollapsed(!isCollapsed)} className="w-full p-4 flex items-center justify-between text-left">
+        <div>
+          <div className="text-[10px] font-bold uppercase tracking-widest text-indigo-300">Mission · {doneCount}/{mission.objectives.length}</div>
+          <div className="font-bold text-sm">{mission.title}</div>
+        </div>
+        <svg className={`w-4 h-4 text-gray-400 transition-transform ${isCollapsed ? '' : 'rotate-180'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {!isCollapsed && (
+        <div className="px-4 pb-4 space-y-3">
+          <ul className="space-y-2">
+            {mission.objectives.map(objective => {
+              const done = progress.completedObjectiveIds.includes(objective.id);
+              return (
+                <li key={objective.id} className="flex items-start gap-2 text-xs">
+                  <span className={`mt-0.5 w-4 h-4 shrink-0 rounded-full border flex items-center justify-center ${done ? 'bg-emerald-500 border-emerald-400' : 'border-white/30'}`}>
+                    {done && <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>}
+                  </span>
+                  <span className={done ? 'text-gray-500 line-through' : 'text-gray-200'}>{objective.description}</span>
+                </li>
+              );
+            })}
+          </ul>
+          {mission.targetPhrases.length > 0 && (
+            <div>
+              <div className="text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1">Try saying</div>
+              <div className="flex flex-wrap gap-1">
+                {mission.targetPhrases.map(phrase => (
+                  <span
+                    key={phrase}
+                    className={`px-2 py-0.5 rounded-full text-[10px] border ${progress.usedPhrases.includes(phrase) ? 'bg-emerald-500/20 border-emerald-500/40 text-emerald-300' : 'bg-white/5 border-white/10 text-gray-400'}`}
+                  >
+                    {phrase}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MissionChecklist;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Mission } from '../types';
+import { personaCatalog } from '../services/personaCatalog';
+import { sceneCatalog } from '../services/sceneCatalog';
+
+interface MissionPickerProps {
+  missions: Mission[];
+  selectedId: string | null;
+  onSelect: (missionId: string | null) => void;
+}
+
+const MissionPicker: React.FC<MissionPickerProps> = ({ missions, selectedId, onSelect }) => {
+  if (missions.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-lg mx-auto bg-black/30 backdrop-blur-md rounded-xl border border-white/10 overflow-hidden text-left animate-slide-up">
+      <div className="p-3 border-b border-white/10 bg-white/5 flex items-center justify-between">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-indigo-300">Missions</h3>
+        {selectedId && (
+          <button onClick={() => onSelect(null)} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-white">
+            Free chat instead
+          </button>
+        )}
+      </div>
+      <div className="flex gap-3 p-3 overflow-x-auto scrollbar-hide">
+        {missions.map(mission => {
+          const isSelected = mission.id === selectedId;
+          return (
+            <button
+              key={mission.id}
+              onClick={() => onSelect(isSelected ? null : mission.id)}
+              className={`shrink-0 w-52 p-3 rounded-xl border text-left transition-colors ${isSelected ? 'bg-indigo-600/30 border-indigo-400' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+            >
+              <div className="font-bold text-sm mb-1">{mission.title}</div>
+              <div className="text-[10px] text-indigo-200 mb-2">
+                {personaCatalog.resolve(mission.personaId).name} · {sceneCatalog.resolve(mission.sceneId).name} · {mission.objectives.length} objectives
+              </div>
+              <p className="text-xs text-gray-400 line-clamp-3">{mission.description}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MissionPicker;
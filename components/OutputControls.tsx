@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { MixerSettings, PLAYBACK_RATE_RANGE } from '../services/outputMixer';
+
+interface OutputControlsProps {
+  settings: MixerSettings;
+  onChange: (changes: Partial<MixerSettings>) => void;
+  canReplay: boolean;
+  onReplay: () => void;
+}
+
+const VOLUME_SLIDERS: { key: 'master' | 'voice' | 'ambient'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'voice', label: 'Partner voice' },
+  { key: 'ambient', label: 'Background' },
+];
+
+const OutputControls: React.FC<OutputControlsProps> = ({ settings, onChange, canReplay, onReplay }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <button
+        onClick={onReplay}
+        disabled={!canReplay}
+        className={`p-5 rounded-full backdrop-blur-md border bg-white/10 border-white/10 transition-all ${canReplay ? 'hover:bg-white/20' : 'opacity-40'}`}
+        title="Replay last sentence"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12a9 9 0 109-9 9.75 9.75 0 00-6.74 2.74L3 8m0-5v5h5" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-5 rounded-full backdrop-blur-md border transition-all ${isOpen ? 'bg-indigo-500/30 border-indigo-400' : 'bg-white/10 border-white/10'}`}
+        title="Volume and speed"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-3 right-0 w-64 bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl p-3 space-y-3 shadow-2xl z-50 text-left">
+          {VOLUME_SLIDERS.map(({ key, label }) => (
+            <label key={key} className="block text-xs text-gray-300">
+              <span className="flex justify-between mb-1">
+                {label}<span className="text-gray-500">{Math.round(settings[key] * 100)}%</span>
+              </span>
+              <input
+                type="range" min={0} max={1} step={0.05}
+                value={settings[key]}
+                onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+          ))}
+          <label className="block text-xs text-gray-300">
+            <span className="flex justify-between mb-1">
+              Partner speed<span className="text-gray-500">{settings.playbackRate.toFixed(2)}×</span>
+            </span>
+            <input
+              type="range" min={PLAYBACK_RATE_RANGE.min} max={PLAYBACK_RATE_RANGE.max} step={PLAYBACK_RATE_RANGE.step}
+              value={settings.playbackRate}
+              onChange={(e) => onChange({ playbackRate: Number(e.target.value) })}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+          <p className="text-[10px] text-gray-500">Slower speech also sounds a little deeper. Background sound dips while either of you is talking.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutputControls;
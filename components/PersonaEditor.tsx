@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { VOICE_NAMES } from '../constants';
+import { Persona, SpeakingSpeed, SlangLevel, CorrectionStyle } from '../types';
+import { PersonaDraft } from '../services/personaCatalog';
+
+interface PersonaEditorProps {
+  persona?: Persona | null; // Existing custom persona to edit; omit to create a new one
+  onSave: (draft: PersonaDraft) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+const AVATAR_SIZE = 200;
+
+const EMPTY_DRAFT: PersonaDraft = {
+  name: '',
+  role: '',
+  description: '',
+  voiceName: VOICE_NAMES[0],
+  avatarUrl: '',
+  speakingSpeed: 'natural',
+  slangLevel: 'light',
+  correctionStyle: 'shadowing',
+  openingLine: '',
+};
+
+// Avatars are stored in localStorage, so uploads are cropped and shrunk to a small JPEG first.
+const resizeAvatar = (file: File) => new Promise<string>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = AVATAR_SIZE;
+    const side = Math.min(img.width, img.height);
+    canvas.getContext('2d')?.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+    URL.revokeObjectURL(img.src);
+    resolve(canvas.toDataURL('image/jpeg', 0.85));
+  };
+  img.onerror = reject;
+  img.src = URL.createObjectURL(file);
+});
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<PersonaDraft>(persona ? { ...persona } : EMPTY_DRAFT);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const set = <K extends keyof PersonaDraft>(key: K, value: PersonaDraft[K]) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) set('avatarUrl', await resizeAvatar(file));
+  };
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 ring-indigo-500/50";
+  const labelClass = "block text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-lg bg-gray-900/95 border border-indigo-500/30 rounded-3xl shadow-2xl max-h-[90vh] overflow-y-auto scrollbar-hide">
+        <form
+          className="p-6 space-y-4"
+          onSubmit={(e) => { e.preventDefault(); if (draft.name.trim()) onSave(draft); }}
+        >
+          <h2 className="text-2xl font-extrabold tracking-tight">{persona ? `Edit ${persona.name}` : 'New Persona'}</h2>
+
+          <div className="flex items-center gap-4">
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="shrink-0" title="Upload avatar">
+              {draft.avatarUrl
+                ? <img src={draft.avatarUrl} className="w-16 h-16 rounded-full object-cover border-2 border-indigo-400" />
+                : <div className="w-16 h-16 rounded-full bg-white/10 border-2 border-dashed border-white/20 flex items-center justify-center text-xs text-gray-400">Photo</div>}
+            </button>
+            <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleAvatarUpload} />
+            <div className="flex-1 space-y-2">
+              <input required value={draft.name} onChange={(e) => set('name', e.target.value)} placeholder="Name" className={inputClass} />
+              <input value={draft.role} onChange={(e) => set('role', e.target.value)} placeholder="Role, e.g. Startup Founder" className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Personality</label>
+            <textarea value={draft.description} onChange={(e) => set('description', e.target.value)} rows={2} placeholder="How they talk and behave" className={inputClass} />
+          </div>
+
+          <div>
+            <label className={labelClass}>Opening line</label>
+            <input value={draft.openingLine} onChange={(e) => set('openingLine', e.target.value)} placeholder="What they say first" className={inputClass} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Voice</label>
+              <select value={draft.voiceName} onChange={(e) => set('voiceName', e.target.value)} className={inputClass}>
+                {VOICE_NAMES.map(v => <option key={v} value={v} className="bg-gray-900">{v}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Speaking speed</label>
+              <select value={draft.speakingSpeed} onChange={(e) => set('speakingSpeed', e.target.value as SpeakingSpeed)} className={inputClass}>
+                <option value="slow" className="bg-gray-900">Slow</option>
+                <option value="natural" className="bg-gray-900">Natural</option>
+                <option value="fast" className="bg-gray-900">Fast</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Slang</label>
+              <select value={draft.slangLevel} onChange={(e) => set('slangLevel', e.target.value as SlangLevel)} className={inputClass}>
+                <option value="none" className="bg-gray-900">None</option>
+                <option value="light" className="bg-gray-900">Light</option>
+                <option value="heavy" className="bg-gray-900">Heavy</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Corrections</label>
+              <select value={draft.correctionStyle} onChange={(e) => set('correctionStyle', e.target.value as CorrectionStyle)} className={inputClass}>
+                <option value="gentle" className="bg-gray-900">Gentle</option>
+                <option value="shadowing" className="bg-gray-900">Shadowing</option>
+                <option value="strict" className="bg-gray-900">Strict</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            {persona && onDelete && (
+              <button type="button" onClick={() => onDelete(persona.id)} className="px-4 py-3 border border-red-500/30 text-red-400 rounded-2xl hover:bg-red-500/10 text-sm font-semibold">
+                Delete
+              </button>
+            )}
+            <button type="button" onClick={onClose} className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-2xl font-bold">Cancel</button>
+            <button type="submit" disabled={!draft.name.trim()} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-2xl font-bold disabled:opacity-50">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { SavedSession } from '../types';
+import { computeProgressStats, UsageCount } from '../utils/progressStats';
+import { personaCatalog } from '../services/personaCatalog';
+import { sceneCatalog } from '../services/sceneCatalog';
+import LineChart, { LineSeries } from './LineChart';
+import BarChart from './BarChart';
+
+interface ProgressDashboardProps {
+  sessions: SavedSession[] | null; // null while loading
+  onClose: () => void;
+}
+
+const WORD_BARS = 20;
+
+const shortDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'numeric', day: 'numeric' });
+const formatMinutes = (minutes: number) => minutes >= 10 ? String(Math.round(minutes)) : minutes.toFixed(1);
+
+const Section: React.FC<{ title: string; action?: React.ReactNode; children: React.ReactNode }> = ({ title, action, children }) => (
+  <div className="bg-white/5 border border-white/5 rounded-2xl p-4">
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="text-[10px] font-bold uppercase tracking-wide text-gray-400">{title}</h3>
+      {action}
+    </div>
+    {children}
+  </div>
+);
+
+const RankList: React.FC<{ items: UsageCount[]; name: (id: string) => string }> = ({ items, name }) => (
+  <ol className="space-y-1">
+    {items.slice(0, 3).map((item, i) => (
+      <li key={item.id} className="flex justify-between text-sm">
+        <span className={i === 0 ? 'text-white font-bold' : 'text-gray-400'}>{name(item.id)}</span>
+        <span className="text-gray-500 text-xs">{item.count}×</span>
+      </li>
+    ))}
+    {items.length === 0 && <li className="text-xs text-gray-500">No sessions yet</li>}
+  </ol>
+);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ sessions, onClose }) => {
+  const [period, setPeriod] = useState<'day' | 'week'>('day');
+  const stats = useMemo(() => sessions ? computeProgressStats(sessions) : null, [sessions]);
+
+  const scoreLabels = stats?.scores.map(p => shortDate(p.date)) ?? [];
+  const subScoreSeries: LineSeries[] = stats ? [
+    { label: 'Fluency', color: '#34D399', values: stats.scores.map(p => p.fluency) },
+    { label: 'Vocab', color: '#60A5FA', values: stats.scores.map(p => p.vocabulary) },
+    { label: 'Grammar', color: '#FB7185', values: stats.scores.map(p => p.grammar) },
+    { label: 'Pronunciation', color: '#C084FC', values: stats.scores.map(p => p.pronunciation) },
+    { label: 'Coherence', color: '#FBBF24', values: stats.scores.map(p => p.coherence) },
+    { label: 'Interaction', color: '#22D3EE', values: stats.scores.map(p => p.interaction) },
+  ].filter(s => s.values.some(v => v !== undefined)) : [];
+  const minutes = period === 'day' ? stats?.minutesPerDay ?? [] : stats?.minutesPerWeek ?? [];
+  const maxErrors = Math.max(1, ...(stats?.errorCategories.map(e => e.count) ?? []));
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="relative w-full max-w-2xl bg-gray-900/95 border border-indigo-500/30 rounded-3xl shadow-2xl animate-slide-up max-h-[90vh] overflow-y-auto scrollbar-hide">
+        <div className="p-6 space-y-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <div className="text-indigo-400 font-mono text-sm tracking-widest uppercase font-semibold">Dashboard</div>
+              <h2 className="text-2xl font-extrabold text-white tracking-tight">Your Progress</h2>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400 hover:text-white">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+
+          {!stats && <div className="py-16 text-center font-bold animate-pulse text-indigo-200">Crunching your sessions...</div>}
+
+          {stats && stats.sessionCount === 0 && (
+            <div className="py-16 text-center text-gray-400 text-sm">Complete a session to start tracking your progress.</div>
+          )}
+
+          {stats && stats.sessionCount > 0 && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {[
+                  { label: 'Sessions', value: stats.sessionCount },
+                  { label: 'Minutes spoken', value: formatMinutes(stats.totalMinutes) },
+                  { label: 'Current streak', value: `${stats.currentStreak}d` },
+                  { label: 'Longest streak', value: `${stats.longestStreak}d` },
+                ].map(tile => (
+                  <div key={tile.label} className="bg-white/5 rounded-2xl p-3 border border-white/5 text-center">
+                    <div className="text-2xl font-black text-white">{tile.value}</div>
+                    <div className="text-[10px] font-bold uppercase tracking-wide text-gray-400">{tile.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              <Section title="Total score">
+                {stats.scores.length > 0
+                  ? <LineChart xLabels={scoreLabels} series={[{ label: 'Total', color: '#818CF8', values: stats.scores.map(p => p.total) }]} />
+                  : <p className="text-xs text-gray-500">No scored sessions yet.</p>}
+              </Section>
+
+              {subScoreSeries.length > 0 && (
+                <Section title="Sub-scores">
+                  <LineChart xLabels={scoreLabels} series={subScoreSeries} />
+                </Section>
+              )}
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <Section
+                  title={`Minutes spoken per ${period}`}
+                  action={
+                    <div className="flex gap-1">
+                      {(['day', 'week'] as const).map(p => (
+                        <button key={p} onClick={() => setPeriod(p)} className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${period === p ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}>{p}</button>
+                      ))}
+                    </div>
+                  }
+                >
+                  <BarChart bars={minutes.map(m => ({ label: shortDate(m.start), value: m.minutes }))} formatValue={formatMinutes} />
+                  <p className="text-[10px] text-gray-500 mt-1">Measured talk time, or estimated from the words you said for older sessions.</p>
+                </Section>
+
+                <Section title="Words per session">
+                  <BarChart
+                    color="#34D399"
+                    bars={stats.wordsPerSession.slice(-WORD_BARS).map(s => ({ label: shortDate(s.date), value: s.words }))}
+                  />
+                </Section>
+
+                <Section title="Favourite partners">
+                  <RankList items={stats.topPersonas} name={id => personaCatalog.nameOf(id)} />
+                </Section>
+
+                <Section title="Favourite scenes">
+                  <RankList items={stats.topScenes} name={id => sceneCatalog.get(id)?.name ?? id} />
+                </Section>
+              </div>
+
+              <Section title="Recurring mistakes">
+                {stats.errorCategories.length === 0 && <p className="text-xs text-gray-500">No corrections recorded yet.</p>}
+                <div className="space-y-2">
+                  {stats.errorCategories.map(e => (
+                    <div key={e.category} className="flex items-center gap-3 text-xs">
+                      <span className="w-24 shrink-0 text-gray-300 capitalize">{e.category}</span>
+                      <div className="flex-1 h-2 bg-white/5 rounded-full overflow-hidden">
+                        <div className="h-full bg-rose-400/70 rounded-full" style={{ width: `${(e.count / maxErrors) * 100}%` }} />
+                      </div>
+                      <span className="w-6 text-right text-gray-500">{e.count}</span>
+                    </div>
+                  ))}
+                </div>
+              </Section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
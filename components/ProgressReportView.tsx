@@ -0,0 +1,82 @@
+import React from 'react';
+import { ProgressReport } from '../types';
+
+interface ProgressReportViewProps {
+  report: ProgressReport | null;
+  isLoading: boolean;
+  error: string | null;
+  onRegenerate: () => void;
+  onClose: () => void;
+}
+
+const ProgressReportView: React.FC<ProgressReportViewProps> = ({ report, isLoading, error, onRegenerate, onClose }) => {
+  const metrics = report ? [
+    { label: 'Fluency', value: report.score.fluency, color: 'text-emerald-400' },
+    { label: 'Vocab', value: report.score.vocabulary, color: 'text-blue-400' },
+    { label: 'Vibe', value: report.score.nativeLike, color: 'text-purple-400' },
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="relative w-full max-w-md bg-gray-900/90 border border-indigo-500/30 rounded-3xl overflow-hidden shadow-2xl animate-slide-up max-h-[90vh] overflow-y-auto scrollbar-hide">
+        <div className="absolute top-0 left-0 w-full h-32 bg-gradient-to-b from-indigo-600/20 to-transparent pointer-events-none" />
+
+        <div className="p-8 flex flex-col items-center text-center relative z-10">
+          <div className="mb-2 text-indigo-400 font-mono text-sm tracking-widest uppercase font-semibold">Progress Report</div>
+          <h2 className="text-3xl font-extrabold text-white mb-8 tracking-tight">Your Journey So Far</h2>
+
+          {isLoading && (
+            <div className="py-16 text-lg font-bold animate-pulse text-indigo-200">Analyzing your sessions...</div>
+          )}
+
+          {!isLoading && error && (
+            <div className="w-full bg-red-500/10 border border-red-500/30 rounded-2xl p-4 mb-8 text-sm text-red-300">{error}</div>
+          )}
+
+          {!isLoading && report && (
+            <>
+              <div className="flex flex-col items-center mb-8">
+                <span className="text-6xl font-black text-white leading-none mb-1">{report.score.total}</span>
+                <span className="text-xs font-bold text-indigo-300/50 uppercase tracking-widest">Overall / 100</span>
+              </div>
+
+              <div className="w-full grid grid-cols-3 gap-3 mb-8">
+                {metrics.map(m => (
+                  <div key={m.label} className="bg-white/5 rounded-2xl p-3 flex flex-col items-center border border-white/5">
+                    <span className="text-[10px] font-bold text-gray-400 mb-1 uppercase tracking-wide">{m.label}</span>
+                    <span className={`text-xl font-bold ${m.color}`}>{m.value}%</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="w-full bg-indigo-500/10 border border-indigo-500/20 rounded-2xl p-4 mb-4 text-left">
+                <p className="text-sm text-gray-300 leading-relaxed italic">"{report.score.comment}"</p>
+              </div>
+              <p className="text-[10px] text-gray-500 mb-8">
+                Based on {report.sessionCount} session{report.sessionCount === 1 ? '' : 's'} · generated {new Date(report.generatedAt).toLocaleString()}
+              </p>
+            </>
+          )}
+
+          <div className="w-full flex gap-3">
+            <button
+              onClick={onRegenerate}
+              disabled={isLoading}
+              className={`flex-1 py-3.5 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-bold transition-all active:scale-95 border border-white/5 ${isLoading ? 'opacity-50 cursor-wait' : ''}`}
+            >
+              {report || error ? 'Regenerate' : 'Generate'}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-bold transition-all shadow-lg shadow-indigo-900/50 active:scale-95"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressReportView;
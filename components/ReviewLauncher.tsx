@@ -0,0 +1,51 @@
+import React from 'react';
+import { ReviewCard } from '../types';
+import { countDue } from '../services/reviewDeck';
+
+interface ReviewLauncherProps {
+  cards: ReviewCard[];
+  lastSpokenReview?: { graded: number; total: number } | null;
+  onStartText: () => void;
+  onStartSpoken: () => void;
+}
+
+const Badge: React.FC<{ count: number; label: string; color: string }> = ({ count, label, color }) => (
+  <span className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full border text-[10px] font-bold ${count > 0 ? color : 'border-white/10 text-gray-500'}`}>
+    {count}<span className="uppercase tracking-wide font-semibold">{label}</span>
+  </span>
+);
+
+const ReviewLauncher: React.FC<ReviewLauncherProps> = ({ cards, lastSpokenReview, onStartText, onStartSpoken }) => {
+  const due = countDue(cards);
+
+  return (
+    <div className="w-full max-w-lg mx-auto bg-black/30 backdrop-blur-md rounded-xl border border-white/10 overflow-hidden text-left animate-slide-up">
+      <div className="p-3 border-b border-white/10 bg-white/5 flex items-center justify-between">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-indigo-300">Review Deck</h3>
+        <div className="flex gap-2">
+          <Badge count={due.mistake} label="mistakes" color="border-rose-500/40 text-rose-300 bg-rose-500/10" />
+          <Badge count={due.vocabulary} label="phrases" color="border-blue-500/40 text-blue-300 bg-blue-500/10" />
+        </div>
+      </div>
+      <div className="p-3 flex items-center gap-3">
+        <p className="flex-1 text-xs text-gray-400">
+          {cards.length === 0
+            ? 'Corrections and new phrases from your sessions will show up here for review.'
+            : due.total > 0
+              ? `${due.total} of ${cards.length} cards due today.`
+              : `All caught up. ${cards.length} cards in your deck.`}
+          {lastSpokenReview && <span className="block text-emerald-300 mt-1">Voice review: {lastSpokenReview.graded} of {lastSpokenReview.total} cards graded.</span>}
+        </p>
+        <button onClick={onStartText} disabled={due.total === 0} className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-xs font-bold disabled:opacity-40">
+          Review
+        </button>
+        <button onClick={onStartSpoken} disabled={due.total === 0} className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-xs font-bold disabled:opacity-40 flex items-center gap-1">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+          Speak
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewLauncher;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ReviewCard } from '../types';
+import { ReviewQuality } from '../utils/sm2';
+
+interface ReviewSessionProps {
+  cards: ReviewCard[]; // Snapshot of the due cards when review started
+  onGrade: (id: string, quality: ReviewQuality) => void;
+  onClose: () => void;
+}
+
+const GRADES: { quality: ReviewQuality; label: string; className: string }[] = [
+  { quality: 1, label: 'Again', className: 'bg-red-500/20 hover:bg-red-500/30 text-red-300' },
+  { quality: 3, label: 'Hard', className: 'bg-amber-500/20 hover:bg-amber-500/30 text-amber-300' },
+  { quality: 4, label: 'Good', className: 'bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300' },
+  { quality: 5, label: 'Easy', className: 'bg-blue-500/20 hover:bg-blue-500/30 text-blue-300' },
+];
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ cards, onGrade, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const [attempt, setAttempt] = useState('');
+  const [isRevealed, setIsRevealed] = useState(false);
+  const card = cards[index];
+
+  const grade = (quality: ReviewQuality) => {
+    onGrade(card.id, quality);
+    setIndex(index + 1);
+    setAttempt('');
+    setIsRevealed(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-md bg-gray-900/95 border border-indigo-500/30 rounded-3xl shadow-2xl p-6">
+        <div className="flex items-center justify-between mb-6">
+          <span className="text-xs font-bold uppercase tracking-widest text-indigo-300">Review {card ? `${index + 1} / ${cards.length}` : ''}</span>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">Close</button>
+        </div>
+
+        {!card ? (
+          <div className="text-center py-8 space-y-4">
+            <h2 className="text-2xl font-extrabold">All done!</h2>
+            <p className="text-sm text-gray-400">You reviewed {cards.length} card{cards.length === 1 ? '' : 's'}. They'll come back when they're due.</p>
+            <button onClick={onClose} className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 rounded-2xl font-bold">Done</button>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => { e.preventDefault(); setIsRevealed(true); }}
+          >
+            <div className="text-[10px] font-bold uppercase tracking-wide text-gray-400">
+              {card.kind === 'mistake' ? 'How would you say this correctly?' : 'What does this phrase mean?'}
+            </div>
+            <div className="text-xl font-bold leading-snug">"{card.prompt}"</div>
+            <input
+              autoFocus
+              value={attempt}
+              onChange={(e) => setAttempt(e.target.value)}
+              disabled={isRevealed}
+              placeholder="Type your answer (optional)"
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 ring-indigo-500/50"
+            />
+
+            {isRevealed ? (
+              <>
+                <div className="bg-indigo-500/10 border border-indigo-500/20 rounded-2xl p-4 space-y-1 animate-fade-in">
+                  <div className="text-base font-semibold text-white">{card.answer}</div>
+                  {card.note && <p className="text-xs text-gray-400 leading-relaxed">{card.note}</p>}
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {GRADES.map(g => (
+                    <button key={g.label} type="button" onClick={() => grade(g.quality)} className={`py-3 rounded-xl text-xs font-bold ${g.className}`}>
+                      {g.label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <button type="submit" className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 rounded-2xl font-bold">Show answer</button>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
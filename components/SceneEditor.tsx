@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SHADERS } from '../constants';
+import { Scene } from '../types';
+import { SceneDraft } from '../services/sceneCatalog';
+import { AMBIENCE_LAYERS, AMBIENCE_LAYER_LABELS } from '../utils/ambienceSynth';
+
+interface SceneEditorProps {
+  scene?: Scene | null; // Existing custom scene to edit; omit to create a new one
+  onSave: (draft: SceneDraft) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: SceneDraft = {
+  name: '',
+  type: 'image',
+  imageUrl: '',
+  shaderCode: SHADERS.rain,
+  ambientSoundUrl: '',
+  brief: { setting: '', goals: [], vocabulary: [] },
+};
+
+const splitLines = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
+const splitCommas = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+const SceneEditor: React.FC<SceneEditorProps> = ({ scene, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<SceneDraft>(scene ? { ...EMPTY_DRAFT, ...scene } : EMPTY_DRAFT);
+  // Goals and vocabulary are edited as free text and only split on save, so typing separators doesn't fight the input.
+  const [goalsText, setGoalsText] = useState((scene?.brief.goals ?? []).join('\n'));
+  const [vocabularyText, setVocabularyText] = useState((scene?.brief.vocabulary ?? []).join(', '));
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const ambientInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => { if (imagePreview) URL.revokeObjectURL(imagePreview); }, [imagePreview]);
+
+  const set = <K extends keyof SceneDraft>(key: K, value: SceneDraft[K]) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    set('imageFile', file);
+    setImagePreview(URL.createObjectURL(file));
+  };
+
+  const handleAmbientUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setDraft(prev => ({ ...prev, ambientFile: file, ambientSoundUrl: '' }));
+  };
+
+  const hasBackdrop = draft.type === 'shader' ? !!draft.shaderCode?.trim() : !!(draft.imageFile || draft.imageUrl);
+  const canSave = !!draft.name.trim() && hasBackdrop;
+  const previewUrl = imagePreview ?? draft.imageUrl;
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 ring-indigo-500/50";
+  const labelClass = "block text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1";
+  const tabClass = (active: boolean) => `flex-1 py-2 rounded-lg text-xs font-bold ${active ? 'bg-indigo-600' : 'bg-white/5 hover:bg-white/10 text-gray-400'}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-lg bg-gray-900/95 border border-indigo-500/30 rounded-3xl shadow-2xl max-h-[90vh] overflow-y-auto scrollbar-hide">
+        <form
+          className="p-6 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSave) onSave({ ...draft, brief: { ...draft.brief, goals: splitLines(goalsText), vocabulary: splitCommas(vocabularyText) } });
+          }}
+        >
+          <h2 className="text-2xl font-extrabold tracking-tight">{scene ? `Edit ${scene.name}` : 'New Scene'}</h2>
+
+          <input required value={draft.name} onChange={(e) => set('name', e.target.value)} placeholder="Name, e.g. Airport Check-in" className={inputClass} />
+
+          <div>
+            <label className={labelClass}>Backdrop</label>
+            <div className="flex gap-2 mb-2">
+              <button type="button" onClick={() => set('type', 'image')} className={tabClass(draft.type === 'image')}>Image</button>
+              <button type="button" onClick={() => set('type', 'shader')} className={tabClass(draft.type === 'shader')}>Shader</button>
+            </div>
+            {draft.type === 'image' ? (
+              <div className="flex items-center gap-3">
+                <button type="button" onClick={() => imageInputRef.current?.click()} className="shrink-0" title="Upload image">
+                  {previewUrl
+                    ? <img src={previewUrl} className="w-24 h-14 rounded-lg object-cover border border-indigo-400" />
+                    : <div className="w-24 h-14 rounded-lg bg-white/10 border-2 border-dashed border-white/20 flex items-center justify-center text-xs text-gray-400">Upload</div>}
+                </button>
+                <input type="file" ref={imageInputRef} className="hidden" accept="image/*" onChange={handleImageUpload} />
+                <input
+                  value={draft.imageFile ? '' : draft.imageUrl ?? ''}
+                  onChange={(e) => { setImagePreview(null); setDraft(prev => ({ ...prev, imageFile: null, imageUrl: e.target.value })); }}
+                  placeholder={draft.imageFile ? 'Using uploaded image' : '…or paste an image URL'}
+                  className={inputClass}
+                />
+              </div>
+            ) : (
+              <textarea
+                value={draft.shaderCode ?? ''}
+                onChange={(e) => set('shaderCode', e.target.value)}
+                rows={6}
+                spellCheck={false}
+                placeholder="GLSL fragment shader (uniforms: u_time, u_resolution)"
+                className={`${inputClass} font-mono text-xs`}
+              />
+            )}
+          </div>
+
+          <div>
+            <label className={labelClass}>Ambient sound</label>
+            <div className="flex items-center gap-2">
+              <input
+                value={draft.ambientFile ? '' : draft.ambientSoundUrl ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, ambientFile: null, ambientSoundUrl: e.target.value }))}
+                placeholder={draft.ambientFile ? `Using ${draft.ambientFile instanceof File ? draft.ambientFile.name : 'uploaded audio'}` : 'Audio file URL (optional, must allow cross-origin requests)'}
+                className={inputClass}
+              />
+              <button type="button" onClick={() => ambientInputRef.current?.click()} className="shrink-0 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-xs font-bold">Upload</button>
+              <input type="file" ref={ambientInputRef} className="hidden" accept="audio/*" onChange={handleAmbientUpload} />
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-2 mt-3">
+              {AMBIENCE_LAYERS.map(layer => (
+                <label key={layer} className="block text-xs text-gray-300">
+                  <span className="flex justify-between mb-1">
+                    {AMBIENCE_LAYER_LABELS[layer]}<span className="text-gray-500">{Math.round((draft.ambience?.[layer] ?? 0) * 100)}%</span>
+                  </span>
+                  <input
+                    type="range" min={0} max={1} step={0.05}
+                    value={draft.ambience?.[layer] ?? 0}
+                    onChange={(e) => set('ambience', { ...draft.ambience, [layer]: Number(e.target.value) })}
+                    className="w-full accent-indigo-500"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Setting</label>
+            <textarea
+              value={draft.brief.setting}
+              onChange={(e) => set('brief', { ...draft.brief, setting: e.target.value })}
+              rows={2}
+              placeholder="Where the conversation happens and who the partner is here"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Goals (one per line)</label>
+            <textarea value={goalsText} onChange={(e) => setGoalsText(e.target.value)} rows={3} placeholder={"Check in for a flight\nAsk for a window seat"} className={inputClass} />
+          </div>
+
+          <div>
+            <label className={labelClass}>Vocabulary (comma-separated)</label>
+            <input value={vocabularyText} onChange={(e) => setVocabularyText(e.target.value)} placeholder="boarding pass, carry-on, layover" className={inputClass} />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            {scene && onDelete && (
+              <button type="button" onClick={() => onDelete(scene.id)} className="px-4 py-3 border border-red-500/30 text-red-400 rounded-2xl hover:bg-red-500/10 text-sm font-semibold">
+                Delete
+              </button>
+            )}
+            <button type="button" onClick={onClose} className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-2xl font-bold">Cancel</button>
+            <button type="submit" disabled={!canSave} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-2xl font-bold disabled:opacity-50">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SceneEditor;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { RubricCriterion, ScoreData } from '../types';
+import { RUBRIC_CRITERIA, RUBRIC_LABELS, evidenceFor } from '../utils/scoring';
+
+const CRITERION_COLORS: Record<RubricCriterion, string> = {
+  fluency: 'text-emerald-400',
+  vocabulary: 'text-blue-400',
+  grammar: 'text-rose-400',
+  pronunciation: 'text-purple-400',
+  coherence: 'text-amber-400',
+  interaction: 'text-cyan-400',
+};
+
+interface ScoreBreakdownProps {
+  score: ScoreData; // Must carry the detailed rubric (see hasRubric)
+}
+
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ score }) => {
+  const [selected, setSelected] = useState<RubricCriterion | null>(null);
+  const evidence = selected ? evidenceFor(score, selected) : [];
+
+  return (
+    <div className="w-full mb-8 space-y-4 text-left">
+      <div className="grid grid-cols-3 gap-3">
+        {RUBRIC_CRITERIA.map(criterion => (
+          <button
+            key={criterion}
+            onClick={() => setSelected(selected === criterion ? null : criterion)}
+            className={`rounded-2xl p-3 flex flex-col items-center border transition-colors ${selected === criterion ? 'bg-white/10 border-indigo-400/50' : 'bg-white/5 border-white/5 hover:bg-white/10'}`}
+            title="Show evidence"
+          >
+            <span className="text-[10px] font-bold text-gray-400 mb-1 uppercase tracking-wide">{RUBRIC_LABELS[criterion]}</span>
+            <span className={`text-xl font-bold ${CRITERION_COLORS[criterion]}`}>{score[criterion]}%</span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="bg-black/30 border border-white/10 rounded-2xl p-4 space-y-3 animate-fade-in">
+          <div className="text-[10px] font-bold uppercase tracking-wide text-gray-400">{RUBRIC_LABELS[selected]} · evidence</div>
+          {evidence.length === 0 && <p className="text-xs text-gray-500">No quotes were given for this score.</p>}
+          {evidence.map((e, i) => (
+            <div key={i}>
+              <p className="text-sm text-white italic">"{e.quote}"</p>
+              {e.note && <p className="text-xs text-gray-400 mt-0.5">{e.note}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {((score.strengths?.length ?? 0) > 0 || (score.weaknesses?.length ?? 0) > 0) && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-emerald-500/5 border border-emerald-500/20 rounded-2xl p-3">
+            <div className="text-[10px] font-bold uppercase tracking-wide text-emerald-300 mb-2">Strengths</div>
+            <ul className="space-y-1 text-xs text-gray-300 list-disc list-inside">
+              {score.strengths?.map((s, i) => <li key={i}>{s}</li>)}
+            </ul>
+          </div>
+          <div className="bg-rose-500/5 border border-rose-500/20 rounded-2xl p-3">
+            <div className="text-[10px] font-bold uppercase tracking-wide text-rose-300 mb-2">To work on</div>
+            <ul className="space-y-1 text-xs text-gray-300 list-disc list-inside">
+              {score.weaknesses?.map((w, i) => <li key={i}>{w}</li>)}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
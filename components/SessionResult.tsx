@@ -1,20 +1,25 @@
-import React from 'react';
-
-export interface ScoreData {
-  total: number;
-  fluency: number;
-  vocabulary: number;
-  nativeLike: number;
-  comment: string;
-}
+import React, { useState } from 'react';
+import { ScoreData, Mission, MissionProgress, Correction, SpeakingMetrics } from '../types';
+import { TranscriptFormat } from '../utils/transcriptExport';
+import TranscriptExportMenu from './TranscriptExportMenu';
+import CorrectionCard from './CorrectionCard';
+import ScoreBreakdown from './ScoreBreakdown';
+import SpeakingMetricsPanel from './SpeakingMetricsPanel';
+import { hasRubric } from '../utils/scoring';
 
 interface SessionResultProps {
   data: ScoreData;
   onClose: () => void;
-  onDownloadTranscript: () => void;
+  onDownloadTranscript: (format: TranscriptFormat) => void;
+  mission?: Mission | null;
+  missionProgress?: MissionProgress | null;
+  corrections?: Correction[];
+  metrics?: SpeakingMetrics | null;
 }
 
-const SessionResult: React.FC<SessionResultProps> = ({ data, onClose, onDownloadTranscript }) => {
+const SessionResult: React.FC<SessionResultProps> = ({ data, onClose, onDownloadTranscript, mission, missionProgress, corrections = [], metrics }) => {
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
       <div className="relative w-full max-w-md bg-gray-900/90 border border-indigo-500/30 rounded-3xl overflow-hidden shadow-2xl animate-slide-up max-h-[90vh] overflow-y-auto scrollbar-hide">
@@ -50,7 +55,14 @@ const SessionResult: React.FC<SessionResultProps> = ({ data, onClose, onDownload
             </div>
           </div>
 
-          {/* Metrics Grid */}
+          {data.cefrLevel && (
+            <div className="-mt-4 mb-6 px-3 py-1 rounded-full border border-indigo-400/40 bg-indigo-500/10 text-xs font-bold text-indigo-200" title="Estimated CEFR level">
+              Estimated level {data.cefrLevel}
+            </div>
+          )}
+
+          {/* Metrics Grid. Reports from before the detailed rubric only have these three. */}
+          {hasRubric(data) ? <ScoreBreakdown score={data} /> : (
           <div className="w-full grid grid-cols-3 gap-3 mb-8">
             <div className="bg-white/5 rounded-2xl p-3 flex flex-col items-center border border-white/5">
               <span className="text-[10px] font-bold text-gray-400 mb-1 uppercase tracking-wide">Fluency</span>
@@ -65,6 +77,34 @@ const SessionResult: React.FC<SessionResultProps> = ({ data, onClose, onDownload
               <span className="text-xl font-bold text-purple-400">{data.nativeLike}%</span>
             </div>
           </div>
+          )}
+
+          {metrics && <SpeakingMetricsPanel metrics={metrics} />}
+
+          {/* Mission Result */}
+          {mission && (
+            <div className={`w-full rounded-2xl p-4 mb-4 text-left border ${data.mission?.success ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-amber-500/10 border-amber-500/30'}`}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-bold uppercase tracking-tighter text-gray-300">Mission · {mission.title}</span>
+                {data.mission && (
+                  <span className={`text-xs font-bold ${data.mission.success ? 'text-emerald-300' : 'text-amber-300'}`}>
+                    {data.mission.success ? 'Accomplished' : 'Not yet'} · {data.mission.score}%
+                  </span>
+                )}
+              </div>
+              <ul className="space-y-1 mb-2">
+                {mission.objectives.map(o => {
+                  const done = missionProgress?.completedObjectiveIds.includes(o.id);
+                  return (
+                    <li key={o.id} className={`text-xs flex gap-2 ${done ? 'text-gray-300' : 'text-gray-500'}`}>
+                      <span>{done ? '✓' : '○'}</span>{o.description}
+                    </li>
+                  );
+                })}
+              </ul>
+              {data.mission?.comment && <p className="text-xs text-gray-400 leading-relaxed">{data.mission.comment}</p>}
+            </div>
+          )}
 
           {/* AI Comment */}
           <div className="w-full bg-indigo-500/10 border border-indigo-500/20 rounded-2xl p-4 mb-8 text-left backdrop-blur-sm">
@@ -77,18 +117,36 @@ const SessionResult: React.FC<SessionResultProps> = ({ data, onClose, onDownload
             </p>
           </div>
 
+          {/* Corrections */}
+          {corrections.length > 0 && (
+            <div className="w-full mb-8 text-left">
+              <div className="text-xs font-bold text-gray-400 uppercase tracking-tighter mb-2">Corrections ({corrections.length})</div>
+              <div className="space-y-2">
+                {corrections.map((c, i) => <CorrectionCard key={i} correction={c} defaultOpen />)}
+              </div>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="w-full flex gap-3">
-             <button 
-               onClick={onDownloadTranscript}
-               className="flex-1 py-3.5 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-bold transition-all flex items-center justify-center gap-2 active:scale-95 border border-white/5"
-               title="Download conversation transcript"
-             >
-                <svg className="w-5 h-5 opacity-70" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                </svg>
-                Transcript
-             </button>
+             <div className="relative flex-1">
+               {isExportOpen && (
+                 <TranscriptExportMenu
+                   className="absolute bottom-full left-0 right-0 mb-2 text-left"
+                   onSelect={(format) => { setIsExportOpen(false); onDownloadTranscript(format); }}
+                 />
+               )}
+               <button 
+                 onClick={() => setIsExportOpen(!isExportOpen)}
+                 className="w-full py-3.5 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-bold transition-all flex items-center justify-center gap-2 active:scale-95 border border-white/5"
+                 title="Download conversation transcript"
+               >
+                  <svg className="w-5 h-5 opacity-70" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  Transcript
+               </button>
+             </div>
              <button 
                onClick={onClose}
                className="flex-1 py-3.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-bold transition-all shadow-lg shadow-indigo-900/50 active:scale-95"
@@ -9,22 +9,10 @@ const ShaderBackground: React.FC<ShaderBackgroundProps> = ({ scene }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>(0);
 
-  // Image handling
-  if (scene.type === 'image') {
-    return (
-      <div 
-        className="fixed inset-0 w-full h-full bg-cover bg-center transition-all duration-1000 ease-in-out"
-        style={{ backgroundImage: `url(${scene.imageUrl})` }}
-      >
-        <div className="absolute inset-0 bg-black/30" />
-      </div>
-    );
-  }
-
-  // WebGL Shader handling
+  // WebGL Shader handling. The effect runs for every scene so the hook order stays stable when switching scene types.
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !scene.shaderCode) return;
+    if (scene.type !== 'shader' || !canvas || !scene.shaderCode) return;
 
     const gl = canvas.getContext('webgl');
     if (!gl) return;
@@ -95,7 +83,19 @@ const ShaderBackground: React.FC<ShaderBackgroundProps> = ({ scene }) => {
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [scene.shaderCode]);
+  }, [scene.type, scene.shaderCode]);
+
+  // Image handling
+  if (scene.type === 'image') {
+    return (
+      <div 
+        className="fixed inset-0 w-full h-full bg-cover bg-center transition-all duration-1000 ease-in-out"
+        style={{ backgroundImage: `url(${scene.imageUrl})` }}
+      >
+        <div className="absolute inset-0 bg-black/30" />
+      </div>
+    );
+  }
 
   return (
     <>
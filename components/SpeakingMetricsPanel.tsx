@@ -0,0 +1,57 @@
+import React from 'react';
+import { SpeakingMetrics } from '../types';
+
+interface SpeakingMetricsPanelProps {
+  metrics: SpeakingMetrics;
+}
+
+const formatSeconds = (ms: number) => ms >= 60000
+  ? `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`
+  : `${(ms / 1000).toFixed(ms < 10000 ? 1 : 0)}s`;
+
+const SpeakingMetricsPanel: React.FC<SpeakingMetricsPanelProps> = ({ metrics }) => {
+  const talkTotal = metrics.userTalkMs + metrics.aiTalkMs;
+  const userShare = talkTotal > 0 ? Math.round((metrics.userTalkMs / talkTotal) * 100) : 0;
+  const topFillers = Object.entries<number>(metrics.fillers).sort((a, b) => b[1] - a[1]).slice(0, 3);
+
+  const tiles = [
+    { label: 'Words / min', value: metrics.wordsPerMinute ? String(metrics.wordsPerMinute) : '–' },
+    { label: 'Avg pause', value: metrics.pauseCount ? formatSeconds(metrics.avgPauseMs) : '–' },
+    { label: 'Longest silence', value: formatSeconds(metrics.longestSilenceMs) },
+    { label: 'Reply latency', value: metrics.avgTurnLatencyMs ? formatSeconds(metrics.avgTurnLatencyMs) : '–' },
+  ];
+
+  return (
+    <div className="w-full mb-4 bg-white/5 border border-white/5 rounded-2xl p-4 text-left">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-tighter">Speaking metrics</span>
+        <span className="text-[10px] text-gray-500">Measured on this device</span>
+      </div>
+
+      <div className="flex justify-between text-[10px] font-bold uppercase tracking-wide mb-1">
+        <span className="text-emerald-300">You {formatSeconds(metrics.userTalkMs)}</span>
+        <span className="text-indigo-300">AI {formatSeconds(metrics.aiTalkMs)}</span>
+      </div>
+      <div className="h-2 rounded-full overflow-hidden bg-indigo-400/60 mb-4" title={`You spoke ${userShare}% of the time`}>
+        <div className="h-full bg-emerald-400" style={{ width: `${userShare}%` }} />
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className="flex flex-col items-center">
+            <span className="text-base font-bold text-white">{tile.value}</span>
+            <span className="text-[9px] font-bold uppercase tracking-wide text-gray-500 text-center leading-tight">{tile.label}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-400">
+        {metrics.fillerCount === 0
+          ? 'No filler words detected.'
+          : <>{metrics.fillerCount} filler word{metrics.fillerCount === 1 ? '' : 's'}: {topFillers.map(([filler, count]) => `"${filler}" ×${count}`).join(', ')}</>}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakingMetricsPanel;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { ReviewCard } from '../types';
+
+interface SpokenReviewPanelProps {
+  cards: ReviewCard[];
+  graded: Record<string, number>; // Card ID -> quality the partner gave it
+}
+
+const SpokenReviewPanel: React.FC<SpokenReviewPanelProps> = ({ cards, graded }) => (
+  <div className="fixed right-4 md:right-6 top-24 z-20 w-72 bg-black/50 backdrop-blur-md border border-white/10 rounded-2xl shadow-2xl p-4 animate-fade-in">
+    <div className="text-[10px] font-bold uppercase tracking-widest text-indigo-300 mb-2">
+      Voice review · {Object.keys(graded).length}/{cards.length}
+    </div>
+    <ul className="space-y-2">
+      {cards.map(card => {
+        const quality = graded[card.id];
+        return (
+          <li key={card.id} className="flex items-start gap-2 text-xs">
+            <span className={`mt-0.5 w-4 h-4 shrink-0 rounded-full border ${quality === undefined ? 'border-white/30' : quality >= 3 ? 'bg-emerald-500 border-emerald-400' : 'bg-red-500 border-red-400'}`} />
+            <span className={quality === undefined ? 'text-gray-200' : 'text-gray-500'}>{card.prompt}</span>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+export default SpokenReviewPanel;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { TRANSCRIPT_FORMATS, TranscriptFormat } from '../utils/transcriptExport';
+
+interface TranscriptExportMenuProps {
+  onSelect: (format: TranscriptFormat) => void;
+  className?: string;
+}
+
+const TranscriptExportMenu: React.FC<TranscriptExportMenuProps> = ({ onSelect, className = '' }) => {
+  return (
+    <div className={`bg-gray-900/95 backdrop-blur-xl border border-white/10 rounded-xl overflow-hidden shadow-2xl z-50 ${className}`}>
+      {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => onSelect(format)}
+          className="w-full px-4 py-2 flex justify-between items-center gap-4 text-sm text-gray-200 hover:bg-white/10 transition-colors"
+        >
+          <span>{label}</span>
+          <span className="text-[10px] font-mono text-gray-500">.{format}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptExportMenu;
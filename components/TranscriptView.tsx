@@ -1,13 +1,18 @@
 import React, { useEffect, useRef } from 'react';
 import { ChatMessage } from '../types';
+import CorrectionCard from './CorrectionCard';
+import { personaCatalog } from '../services/personaCatalog';
+import VoiceReplayControls from './VoiceReplayControls';
+import HeardText from './HeardText';
 
 interface TranscriptViewProps {
   messages: ChatMessage[];
   liveInput: string;
   liveOutput: string;
+  footer?: React.ReactNode; // e.g. the text composer in typed mode
 }
 
-const TranscriptView: React.FC<TranscriptViewProps> = ({ messages, liveInput, liveOutput }) => {
+const TranscriptView: React.FC<TranscriptViewProps> = ({ messages, liveInput, liveOutput, footer }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -16,6 +21,9 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ messages, liveInput, li
     }
   }, [messages, liveInput, liveOutput]);
 
+  // Partner names only matter once someone else has taken over the conversation.
+  const multiplePartners = new Set(messages.filter(m => m.role === 'model').map(m => m.personaId)).size > 1;
+
   return (
     <div className="absolute z-20 pointer-events-auto 
       left-4 right-4 bottom-32 h-[40vh]
@@ -27,6 +35,9 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ messages, liveInput, li
         >
           {messages.map((msg, idx) => (
             <div key={idx} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+              {multiplePartners && msg.role === 'model' && (
+                <span className="text-[10px] font-bold uppercase tracking-tighter text-emerald-400 mb-0.5 ml-1">{personaCatalog.nameOf(msg.personaId)}</span>
+              )}
               <div 
                 className={`max-w-[90%] p-3 rounded-2xl text-sm leading-relaxed ${
                   msg.role === 'user' 
@@ -34,8 +45,15 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ messages, liveInput, li
                     : 'bg-white/10 text-gray-100 rounded-tl-none border border-white/10'
                 }`}
               >
-                {msg.text}
+                <HeardText message={msg} />
+                {msg.interrupted && <span className="ml-1 text-gray-500" title="Cut off before it finished">…</span>}
               </div>
+              {msg.recordingId && <VoiceReplayControls message={msg} />}
+              {msg.corrections && msg.corrections.length > 0 && (
+                <div className="max-w-[90%] w-full mt-1 space-y-1">
+                  {msg.corrections.map((c, i) => <CorrectionCard key={i} correction={c} />)}
+                </div>
+              )}
             </div>
           ))}
 
@@ -59,6 +77,7 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ messages, liveInput, li
             </div>
           )}
         </div>
+        {footer}
       </div>
     </div>
   );
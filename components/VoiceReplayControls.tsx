@@ -0,0 +1,50 @@
+import React, { useSyncExternalStore } from 'react';
+import { ChatMessage } from '../types';
+import { clipPlayer } from '../services/clipPlayer';
+import { personaCatalog } from '../services/personaCatalog';
+import { applyCorrections } from '../utils/corrections';
+
+interface VoiceReplayControlsProps {
+  message: ChatMessage; // A user turn with a recordingId
+}
+
+const PlayIcon = () => <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>;
+const StopIcon = () => <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h12v12H6z" /></svg>;
+
+const VoiceReplayControls: React.FC<VoiceReplayControlsProps> = ({ message }) => {
+  const player = useSyncExternalStore(clipPlayer.subscribe, clipPlayer.getState);
+  if (!message.recordingId) return null;
+  const recordingId = message.recordingId;
+  const isActive = player.playingId === recordingId;
+  const corrections = message.corrections ?? [];
+
+  const buttonClass = "flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/5 hover:bg-white/15 border border-white/10 text-[10px] font-bold uppercase tracking-wide text-indigo-200";
+  const label = isActive ? { loading: 'Loading…', yours: 'Yours…', corrected: 'Corrected…', idle: '' }[player.phase] : '';
+
+  return (
+    <div className="flex items-center gap-1.5 mt-1">
+      {isActive ? (
+        <button onClick={() => clipPlayer.stop()} className={buttonClass} title="Stop">
+          <StopIcon />{label}
+        </button>
+      ) : (
+        <>
+          <button onClick={() => clipPlayer.play(recordingId)} className={buttonClass} title="Listen to yourself">
+            <PlayIcon />Mine
+          </button>
+          {corrections.length > 0 && (
+            <button
+              onClick={() => clipPlayer.compare(recordingId, applyCorrections(message.text, corrections), personaCatalog.resolve(message.personaId).voiceName)}
+              className={buttonClass}
+              title="Your recording, then the corrected version"
+            >
+              <PlayIcon />Mine → corrected
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VoiceReplayControls;
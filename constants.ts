@@ -1,4 +1,4 @@
-import { Persona, PersonaId, Scene, SceneId } from './types';
+import { PersonaId, SceneId } from './types';
 
 // --- SHADER CODE (The "Rainy Cafe" vibe) ---
 export const RAIN_SHADER = `
@@ -50,103 +50,14 @@ void main() {
 }
 `;
 
-export const PERSONAS: Record<PersonaId, Persona> = {
-  [PersonaId.SINK]: {
-    id: PersonaId.SINK,
-    name: 'Sink',
-    role: 'Base System',
-    description: 'Your adaptive language partner.',
-    voiceName: 'Puck',
-    avatarUrl: 'https://picsum.photos/id/64/200/200'
-  },
-  [PersonaId.ROSS]: {
-    id: PersonaId.ROSS,
-    name: 'Ross',
-    role: 'Sarcastic Friend',
-    description: 'Correction obsessed, sarcastic, "Friends" vibe.',
-    voiceName: 'Fenrir', // Deeper, maybe slightly more rigorous sounding
-    avatarUrl: 'https://picsum.photos/id/1005/200/200'
-  },
-  [PersonaId.OLIVIA]: {
-    id: PersonaId.OLIVIA,
-    name: 'Olivia',
-    role: 'NYC Banker',
-    description: 'Fast-paced, professional, direct, business slang.',
-    voiceName: 'Kore', // Calm, professional female
-    avatarUrl: 'https://picsum.photos/id/338/200/200'
-  },
-  [PersonaId.JAKE]: {
-    id: PersonaId.JAKE,
-    name: 'Jake',
-    role: 'Surfer Dude',
-    description: 'Chill, slow, uses "like" and "totally", encouraging.',
-    voiceName: 'Zephyr', // Friendly
-    avatarUrl: 'https://picsum.photos/id/334/200/200'
-  }
-};
+// Prebuilt voices offered by the Live API; personas (including custom ones) must use one of these.
+export const VOICE_NAMES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const DEFAULT_PERSONA_ID = PersonaId.SINK;
 
-export const SCENES: Record<SceneId, Scene> = {
-  [SceneId.COFFEE_SHOP]: {
-    id: SceneId.COFFEE_SHOP,
-    name: 'Rainy Starbucks',
-    type: 'shader',
-    shaderCode: RAIN_SHADER,
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/coffee_shop.ogg'
-  },
-  [SceneId.NY_STREET]: {
-    id: SceneId.NY_STREET,
-    name: 'Manhattan Sunset',
-    type: 'image',
-    imageUrl: 'https://picsum.photos/id/122/1920/1080', // City
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/subway_station_nyc.ogg'
-  },
-  [SceneId.BEACH]: {
-    id: SceneId.BEACH,
-    name: 'Cali Beach',
-    type: 'image',
-    imageUrl: 'https://picsum.photos/id/1043/1920/1080',
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/summer_beach_parking_lot.ogg'
-  },
-  [SceneId.PUB]: {
-    id: SceneId.PUB,
-    name: 'British Pub',
-    type: 'image',
-    imageUrl: 'https://picsum.photos/id/431/1920/1080', // Dark interior
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/retail_background_noises.ogg'
-  },
-  [SceneId.OFFICE]: {
-    id: SceneId.OFFICE,
-    name: 'Tech Office',
-    type: 'image',
-    imageUrl: 'https://picsum.photos/id/1/1920/1080',
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/ambient_hum_air_conditioner.ogg'
-  },
-  [SceneId.GYM]: {
-    id: SceneId.GYM,
-    name: 'High-end Gym',
-    type: 'image',
-    imageUrl: 'https://picsum.photos/id/352/1920/1080',
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/factory_background.ogg'
-  },
-  [SceneId.MARKET]: {
-    id: SceneId.MARKET,
-    name: 'Bustling Market',
-    type: 'image',
-    imageUrl: 'https://picsum.photos/seed/market123/1920/1080', // Seeded random for consistent "market" feel
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/small_outdoor_marketplace.ogg'
-  },
-  [SceneId.LIBRARY]: {
-    id: SceneId.LIBRARY,
-    name: 'Quiet Library',
-    type: 'image',
-    imageUrl: 'https://picsum.photos/id/192/1920/1080', // Indoor/Architectural
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/outside_night.ogg'
-  },
-  [SceneId.FUTURISTIC]: {
-    id: SceneId.FUTURISTIC,
-    name: 'Neo Tokyo',
-    type: 'image',
-    imageUrl: 'https://picsum.photos/seed/future99/1920/1080',
-    ambientSoundUrl: 'https://actions.google.com/sounds/v1/ambiences/swoosh.ogg'
-  }
+// Shaders that scene catalog entries can reference by key instead of embedding GLSL.
+export const SHADERS: Record<string, string> = {
+  rain: RAIN_SHADER,
 };
+
+export const DEFAULT_SCENE_ID = SceneId.COFFEE_SHOP;
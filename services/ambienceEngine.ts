@@ -0,0 +1,139 @@
+import { AmbienceLayer, Scene } from '../types';
+import { AMBIENCE_LAYERS, AMBIENCE_LAYER_FILTERS, synthesizeLayer } from '../utils/ambienceSynth';
+import { outputMixer } from './outputMixer';
+
+const CROSSFADE_SECONDS = 1.5;
+
+// Everything playing for one scene, faded in and out as a unit.
+interface Bed {
+  key: string;
+  gain: GainNode;
+  sources: AudioBufferSourceNode[];
+}
+
+// Identifies what a scene sounds like, so editing a scene's ambience restarts it but re-selecting it doesn't.
+const bedKey = (scene: Scene) => `${scene.id}|${scene.ambientSoundUrl ?? ''}|${JSON.stringify(scene.ambience ?? {})}`;
+
+// Plays each scene's background as looping Web Audio layers: generated rain, crowd, waves and HVAC hum at the volumes
+// in the scene catalog, plus the scene's own sound file if it has one. Nothing is fetched for the built-in scenes, so
+// ambience works offline. Switching scenes crossfades; the overall level comes from the output mixer.
+export class AmbienceEngine {
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private layerBuffers = new Map<AmbienceLayer, AudioBuffer>();
+  private fileBuffers = new Map<string, Promise<AudioBuffer | null>>();
+  private current: Bed | null = null;
+  private run = 0;
+
+  async play(scene: Scene) {
+    const key = bedKey(scene);
+    if (this.current?.key === key) return;
+    const run = ++this.run;
+    const ctx = this.getContext();
+    if (ctx.state === 'suspended') ctx.resume();
+    const file = scene.ambientSoundUrl ? await this.loadFile(scene.ambientSoundUrl) : null;
+    if (run !== this.run) return;
+    this.fadeOut(this.current);
+    this.current = this.startBed(ctx, key, scene, file);
+  }
+
+  stop() {
+    this.run++;
+    this.fadeOut(this.current);
+    this.current = null;
+  }
+
+  private startBed(ctx: AudioContext, key: string, scene: Scene, file: AudioBuffer | null): Bed {
+    const now = ctx.currentTime;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(1, now + CROSSFADE_SECONDS);
+    gain.connect(this.output!);
+    const sources: AudioBufferSourceNode[] = [];
+
+    const loop = (buffer: AudioBuffer, destination: AudioNode) => {
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.loop = true;
+      source.connect(destination);
+      // A random start point, so two scenes sharing a layer don't sound like the same recording restarting.
+      source.start(now, Math.random() * buffer.duration);
+      sources.push(source);
+    };
+
+    AMBIENCE_LAYERS.forEach(layer => {
+      const volume = scene.ambience?.[layer];
+      if (!volume) return;
+      const { type, frequency, Q } = AMBIENCE_LAYER_FILTERS[layer];
+      const filter = ctx.createBiquadFilter();
+      filter.type = type;
+      filter.frequency.value = frequency;
+      filter.Q.value = Q;
+      const layerGain = ctx.createGain();
+      layerGain.gain.value = volume;
+      filter.connect(layerGain);
+      layerGain.connect(gain);
+      loop(this.getLayerBuffer(ctx, layer), filter);
+    });
+    if (file) loop(file, gain);
+
+    return { key, gain, sources };
+  }
+
+  private fadeOut(bed: Bed | null) {
+    if (!bed || !this.context) return;
+    const now = this.context.currentTime;
+    bed.gain.gain.cancelScheduledValues(now);
+    bed.gain.gain.setValueAtTime(bed.gain.gain.value, now);
+    bed.gain.gain.linearRampToValueAtTime(0, now + CROSSFADE_SECONDS);
+    bed.sources.forEach(source => source.stop(now + CROSSFADE_SECONDS));
+  }
+
+  // Generated once per layer and shared by every scene that uses it.
+  private getLayerBuffer(ctx: AudioContext, layer: AmbienceLayer) {
+    let buffer = this.layerBuffers.get(layer);
+    if (!buffer) {
+      const samples = synthesizeLayer(layer, ctx.sampleRate);
+      buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate);
+      buffer.copyToChannel(samples, 0);
+      this.layerBuffers.set(layer, buffer);
+    }
+    return buffer;
+  }
+
+  // Uploaded files are object URLs; other URLs have to allow cross-origin requests. A file that fails to load is
+  // skipped and the generated layers play on their own.
+  private loadFile(url: string) {
+    let buffer = this.fileBuffers.get(url);
+    if (!buffer) {
+      buffer = fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .then(data => this.getContext().decodeAudioData(data))
+        .catch(e => {
+          console.error("Failed to load ambient sound:", e);
+          this.fileBuffers.delete(url);
+          return null;
+        });
+      this.fileBuffers.set(url, buffer);
+    }
+    return buffer;
+  }
+
+  private getContext() {
+    if (!this.context) {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const ctx: AudioContext = new AudioContextClass();
+      const output = ctx.createGain();
+      output.connect(ctx.destination);
+      outputMixer.addAmbientOutput(level => output.gain.setTargetAtTime(level, ctx.currentTime, 0.05));
+      this.context = ctx;
+      this.output = output;
+    }
+    return this.context;
+  }
+}
+
+export const ambienceEngine = new AmbienceEngine();
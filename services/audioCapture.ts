@@ -0,0 +1,119 @@
+import { Blob } from "@google/genai";
+import { createBlob, createBlobFromPcm16, resampleLinear } from '../utils/audioUtils';
+import { PCM_CAPTURE_PROCESSOR, PCM_CAPTURE_WORKLET } from '../utils/captureWorklet';
+
+const TARGET_SAMPLE_RATE = 16000;
+const WORKLET_BATCH_SIZE = 2048; // 128 ms of 16 kHz audio
+const SCRIPT_PROCESSOR_BUFFER_SIZE = 4096;
+
+export type CaptureMode = 'worklet' | 'script-processor';
+
+// Microphone capture for the live session. Prefers an AudioWorklet that resamples and converts to PCM
+// on the audio thread; falls back to the deprecated ScriptProcessorNode where worklets are unavailable.
+export class AudioCapture {
+  readonly context: AudioContext;
+  readonly analyser: AnalyserNode;
+  mode: CaptureMode | null = null;
+
+  private onChunk: (chunk: Blob) => void;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | ScriptProcessorNode | null = null;
+  stream: MediaStream | null = null;
+  private workletUrl: string | null = null;
+
+  constructor(onChunk: (chunk: Blob) => void) {
+    this.onChunk = onChunk;
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    // The worklet resamples itself, so it runs at the device's native rate; the fallback asks the browser for 16 kHz.
+    this.context = AudioCapture.supportsWorklet()
+      ? new AudioContextClass()
+      : new AudioContextClass({ sampleRate: TARGET_SAMPLE_RATE });
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 1024;
+  }
+
+  get isRunning() {
+    return this.node !== null;
+  }
+
+  // True while a live, enabled microphone track is feeding the graph.
+  get hasLiveTrack() {
+    return !!this.stream?.getAudioTracks().some(t => t.readyState === 'live' && t.enabled);
+  }
+
+  static supportsWorklet() {
+    return typeof AudioWorkletNode !== 'undefined' && 'audioWorklet' in AudioContext.prototype;
+  }
+
+  async resume() {
+    if (this.context.state === 'suspended') await this.context.resume();
+  }
+
+  async start(stream: MediaStream) {
+    await this.resume();
+    if (AudioCapture.supportsWorklet()) {
+      try {
+        this.node = await this.createWorkletNode();
+        this.mode = 'worklet';
+      } catch (e) {
+        console.warn("AudioWorklet capture unavailable, falling back to ScriptProcessorNode:", e);
+      }
+    }
+    if (!this.node) {
+      this.node = this.createScriptProcessorNode();
+      this.mode = 'script-processor';
+      this.node.connect(this.context.destination);
+    }
+    this.attachStream(stream);
+  }
+
+  attachStream(stream: MediaStream) {
+    this.releaseStream();
+    this.stream = stream;
+    this.source = this.context.createMediaStreamSource(stream);
+    this.source.connect(this.analyser);
+    if (this.node) this.source.connect(this.node);
+  }
+
+  // Stops the microphone tracks (turning off the browser's recording indicator) but keeps the processing graph.
+  releaseStream() {
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.source = null;
+    this.stream = null;
+  }
+
+  private async createWorkletNode(): Promise<AudioWorkletNode> {
+    this.workletUrl = URL.createObjectURL(new window.Blob([PCM_CAPTURE_WORKLET], { type: 'application/javascript' }));
+    await this.context.audioWorklet.addModule(this.workletUrl);
+    const node = new AudioWorkletNode(this.context, PCM_CAPTURE_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { targetRate: TARGET_SAMPLE_RATE, batchSize: WORKLET_BATCH_SIZE },
+    });
+    node.port.onmessage = (e: MessageEvent<Int16Array>) => this.onChunk(createBlobFromPcm16(e.data));
+    return node;
+  }
+
+  private createScriptProcessorNode(): ScriptProcessorNode {
+    const processor = this.context.createScriptProcessor(SCRIPT_PROCESSOR_BUFFER_SIZE, 1, 1);
+    const sampleRate = this.context.sampleRate;
+    processor.onaudioprocess = (e) => {
+      this.onChunk(createBlob(resampleLinear(e.inputBuffer.getChannelData(0), sampleRate, TARGET_SAMPLE_RATE)));
+    };
+    return processor;
+  }
+
+  stop() {
+    if (this.node instanceof AudioWorkletNode) this.node.port.onmessage = null;
+    this.node?.disconnect();
+    this.releaseStream();
+    this.analyser.disconnect();
+    if (this.context.state !== 'closed') this.context.close();
+    if (this.workletUrl) URL.revokeObjectURL(this.workletUrl);
+    this.node = null;
+    this.workletUrl = null;
+  }
+}
@@ -0,0 +1,118 @@
+import { decode, decodeAudioData } from '../utils/audioUtils';
+import { llmProvider } from './llmProvider';
+import { outputMixer } from './outputMixer';
+import { recordingStore } from './recordingStore';
+
+export interface ClipPlayerState {
+  playingId: string | null; // Recording being played, alone or as the first half of a comparison
+  phase: 'idle' | 'loading' | 'yours' | 'corrected';
+}
+
+const IDLE: ClipPlayerState = { playingId: null, phase: 'idle' };
+
+// Plays back recorded user turns, optionally followed by the partner voice reading the corrected version.
+// Only one thing plays at a time; starting another clip stops the current one.
+export class ClipPlayer {
+  private context: AudioContext | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private state = IDLE;
+  private run = 0;
+  private listeners = new Set<() => void>();
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore.
+  getState = (): ClipPlayerState => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  async play(recordingId: string) {
+    const run = this.begin(recordingId);
+    try {
+      const buffer = await this.loadRecording(recordingId);
+      if (run !== this.run) return;
+      if (buffer) await this.playBuffer(buffer, run, 'yours');
+    } catch (e) {
+      console.error("Failed to play recording:", e);
+    }
+    if (run === this.run) this.update(IDLE);
+  }
+
+  // "Yours, then the corrected version": the recording, then `correctedText` spoken in `voiceName`.
+  async compare(recordingId: string, correctedText: string, voiceName: string) {
+    const run = this.begin(recordingId);
+    try {
+      // Synthesis is started straight away so it's usually ready by the time the recording finishes.
+      const corrected = llmProvider.synthesizeSpeech(correctedText, voiceName);
+      const buffer = await this.loadRecording(recordingId);
+      if (run !== this.run) return;
+      if (buffer) await this.playBuffer(buffer, run, 'yours');
+      if (run !== this.run) return;
+      this.update({ playingId: recordingId, phase: 'loading' });
+      const pcm = await corrected;
+      if (run !== this.run) return;
+      if (pcm) await this.playBuffer(await decodeAudioData(decode(pcm), this.getContext(), 24000, 1), run, 'corrected');
+    } catch (e) {
+      console.error("Failed to play comparison:", e);
+    }
+    if (run === this.run) this.update(IDLE);
+  }
+
+  stop() {
+    this.run++;
+    this.stopSource();
+    this.update(IDLE);
+  }
+
+  private begin(recordingId: string) {
+    this.stop();
+    this.update({ playingId: recordingId, phase: 'loading' });
+    return this.run;
+  }
+
+  private async loadRecording(recordingId: string): Promise<AudioBuffer | null> {
+    const audio = await recordingStore.get(recordingId);
+    return audio ? this.getContext().decodeAudioData(await audio.arrayBuffer()) : null;
+  }
+
+  private playBuffer(buffer: AudioBuffer, run: number, phase: ClipPlayerState['phase']): Promise<void> {
+    const ctx = this.getContext();
+    if (ctx.state === 'suspended') ctx.resume();
+    this.stopSource();
+    this.update({ ...this.state, phase });
+    return new Promise(resolve => {
+      const source = ctx.createBufferSource();
+      const gain = ctx.createGain();
+      source.buffer = buffer;
+      gain.gain.value = outputMixer.getSettings().master;
+      source.connect(gain);
+      gain.connect(ctx.destination);
+      source.addEventListener('ended', () => resolve());
+      this.source = source;
+      source.start();
+      // A superseded run resolves via stop(), which fires 'ended'.
+      if (run !== this.run) source.stop();
+    });
+  }
+
+  private stopSource() {
+    try { this.source?.stop(); } catch (e) {}
+    this.source = null;
+  }
+
+  private getContext() {
+    if (!this.context) {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      this.context = new AudioContextClass();
+    }
+    return this.context;
+  }
+
+  private update(state: ClipPlayerState) {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const clipPlayer = new ClipPlayer();
@@ -0,0 +1,53 @@
+const DB_NAME = 'deepsink';
+const DB_VERSION = 4;
+
+export const SESSIONS_STORE = 'sessions';
+export const SCENES_STORE = 'customScenes';
+export const REVIEW_STORE = 'reviewCards';
+export const RECORDINGS_STORE = 'recordings';
+
+let db: Promise<IDBDatabase> | null = null;
+
+// Shared IndexedDB connection. Each version step only adds what the previous one lacked, so upgrades are incremental.
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => {
+        const database = request.result;
+        if (e.oldVersion < 1) {
+          const sessions = database.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          sessions.createIndex('date', 'date');
+        }
+        if (e.oldVersion < 2) {
+          database.createObjectStore(SCENES_STORE, { keyPath: 'id' });
+        }
+        if (e.oldVersion < 3) {
+          database.createObjectStore(REVIEW_STORE, { keyPath: 'id' });
+        }
+        if (e.oldVersion < 4) {
+          const recordings = database.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+          recordings.createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.catch(() => { db = null; });
+  }
+  return db;
+}
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Rejects with tx.error, which is only set once the transaction aborts; a failed request aborts it right after its
+// error event, so that's the one to wait for.
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+  });
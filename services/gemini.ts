@@ -1,20 +1,74 @@
 
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration, Blob } from "@google/genai";
-import { SCENES, PERSONAS } from '../constants';
-import { PersonaId, SceneId, Persona, SavedSession } from '../types';
-
-export interface LiveSessionConfig {
-  persona: Persona;
-  onOpen: () => void;
-  onMessage: (message: LiveServerMessage) => void;
-  onClose: () => void;
-  onError: (error: any) => void;
-  tools?: any[];
-  imageContext?: string | null;
-  searchContext?: string | null;
+import { GoogleGenAI, Modality, Type, Blob, ActivityHandling } from "@google/genai";
+import { RUBRIC_CRITERIA, RUBRIC_DESCRIPTORS, CEFR_LEVELS } from '../utils/scoring';
+import { Scene, Mission, ReviewCard, SavedSession, SpeakingSpeed, SlangLevel, CorrectionStyle } from '../types';
+import { LlmProvider, LiveSessionConfig, SearchResult, MissionContext } from './llmProvider';
+
+const SPEED_GUIDANCE: Record<SpeakingSpeed, string> = {
+  slow: 'Speak slowly and clearly, with short sentences and pauses.',
+  natural: 'Speak at a natural conversational pace.',
+  fast: 'Speak fast, like a busy native speaker. Do not slow down unless asked.',
+};
+
+const SLANG_GUIDANCE: Record<SlangLevel, string> = {
+  none: 'Use standard English and avoid slang or idioms.',
+  light: 'Use everyday idioms and light, common slang.',
+  heavy: 'Use plenty of slang and idioms that fit your character.',
+};
+
+// The native-audio model can only answer in speech, so text replies need the half-cascade live model.
+const LIVE_AUDIO_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const LIVE_TEXT_MODEL = 'gemini-live-2.5-flash-preview';
+
+const CORRECTION_GUIDANCE: Record<CorrectionStyle, string> = {
+  gentle: 'Only correct mistakes that block understanding, and do it encouragingly in passing.',
+  shadowing: 'Use the "shadowing" technique for grammar/fluency slips: naturally repeat the user\'s idea back with the correct phrasing.',
+  strict: 'Point out every grammar or word-choice mistake explicitly, give the correct version, and ask the user to repeat it.',
+};
+
+// Role-play framing for a scene. Also sent mid-session when the user switches scenes themselves.
+export function describeScene(scene: Scene): string {
+  const { setting, goals, vocabulary } = scene.brief;
+  return `[SCENE: ${scene.name}. ${setting || 'Play along with the setting.'}` +
+    (goals.length ? `\nSteer the role-play towards: ${goals.join('; ')}.` : '') +
+    (vocabulary.length ? `\nWork in useful vocabulary for this setting, such as: ${vocabulary.join(', ')}.` : '') +
+    ']';
+}
+
+const SCORING_RUBRIC = `Score each criterion 0-100 using these bands, judging only the User's turns:
+${RUBRIC_CRITERIA.map(c => `- ${c}: ${RUBRIC_DESCRIPTORS[c]}`).join('\n')}
+- nativeLike: how natural and native-sounding the user is overall.
+Estimate the user's CEFR level (${CEFR_LEVELS.join(', ')}) from the same evidence.
+List 2-3 concrete strengths and 2-3 weaknesses.
+Back every criterion with at least one piece of evidence: a verbatim quote copied from a User turn, plus a short note on what it shows. Never quote the partner and never paraphrase.
+User turns marked [typed] were typed rather than spoken: don't judge pronunciation from them. If no turn was spoken, set pronunciation to the grammar score.`;
+
+// Keeps only evidence whose quote really occurs in the user's side of the transcript (ignoring case, spacing and punctuation).
+function keepVerifiedEvidence(report: any, transcript: string) {
+  if (!report || !Array.isArray(report.evidence)) return report;
+  const squash = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+  const userText = squash(transcript.split('\n').filter(line => line.startsWith('User:')).map(line => line.slice(5)).join(' '));
+  return { ...report, evidence: report.evidence.filter((e: any) => typeof e?.quote === 'string' && squash(e.quote) && userText.includes(squash(e.quote))) };
+}
+
+function describeReviewDrill(cards: ReviewCard[]): string {
+  const items = cards.map(c => c.kind === 'mistake'
+    ? `- ${c.id} (past mistake): the user once said "${c.prompt}"; the correct version is "${c.answer}". ${c.note}`
+    : `- ${c.id} (vocabulary): "${c.prompt}" means ${c.answer}. ${c.note}`).join('\n');
+  return `[REVIEW DRILL: Instead of free conversation, run a quick spoken review of these cards, one at a time.
+For a past mistake, set up a situation where the user needs that phrase and see whether they say it correctly. For vocabulary, ask them to explain or use the phrase.
+After each card, give brief feedback and call gradeReviewCard with its ID and a quality from 0 (forgot completely) to 5 (perfect). When every card is graded, say goodbye.
+${items}]`;
+}
+
+function describeMission(mission: Mission): string {
+  const objectives = mission.objectives.map(o => `- ${o.id}: ${o.description}`).join('\n');
+  return `[MISSION: ${mission.title}. ${mission.description}\nThe user must complete these objectives (id: description):\n${objectives}` +
+    (mission.targetPhrases.length ? `\nEncourage the user to use these target phrases: ${mission.targetPhrases.join(', ')}.` : '') +
+    ']';
 }
 
-export class GeminiService {
+export class GeminiService implements LlmProvider {
   private client: GoogleGenAI;
   private session: Promise<any> | null = null;
 
@@ -24,24 +78,32 @@ export class GeminiService {
   }
 
   connectLive(config: LiveSessionConfig): Promise<any> {
-    const { persona, onOpen, onMessage, onClose, onError, tools, imageContext, searchContext } = config;
+    const { persona, scene, mission, reviewCards, textReplies, allowInterruptions, onOpen, onMessage, onClose, onError, tools, imageContext, searchContext, conversationContext } = config;
 
     const systemInstruction = `You are DeepSink, an immersive English native partner. 
 Current Persona: ${persona.name} (${persona.role}). 
 Description: ${persona.description}.
+Speaking style: ${SPEED_GUIDANCE[persona.speakingSpeed]} ${SLANG_GUIDANCE[persona.slangLevel]}
+${persona.openingLine && !conversationContext ? `Opening line: Start the conversation with something like "${persona.openingLine}"` : ''}
+
+${describeScene(scene)}
+${mission ? `\n${describeMission(mission)}` : ''}
+${reviewCards?.length ? `\n${describeReviewDrill(reviewCards)}` : ''}
 
 ${imageContext ? `\n[IMAGE CONTEXT: The user uploaded an image. Description: ${imageContext}. Start by discussing this image.]` : ''}
 ${searchContext ? `\n[INTERNET CONTEXT: Here is grounded search data about the current topic: ${searchContext}. Use this to discuss real-world facts and recent news during the conversation.]` : ''}
+${conversationContext ? `\n[CONVERSATION SO FAR: This conversation is already in progress. ${conversationContext}\nDo not restart the conversation from scratch.]` : ''}
 
 CORE RULES:
 1. IMMERSION: Behave exactly like your persona.
-2. CORRECTION: Use the "shadowing" technique for grammar/fluency slips.
+2. CORRECTION: ${CORRECTION_GUIDANCE[persona.correctionStyle]} Whenever you correct something (or notice a mistake worth learning from), also call reportCorrection with the user's exact words and the fix; never read the tool call out loud.
 3. SCENE/PERSONA: Use tools if the user asks to switch environments or talk to someone else.
-4. KNOWLEDGE: Use the provided search context to stay factually accurate about trending topics.`;
+4. KNOWLEDGE: Use the provided search context to stay factually accurate about trending topics. When you use an idiom or phrase the user probably doesn't know yet, call teachPhrase so they can review it later.${mission ? `
+5. MISSION: Create natural openings for each objective, but let the user do the work. Call completeObjective as soon as the user has genuinely achieved one, and completeMission once all are done or the role-play has clearly run its course.` : ''}`;
 
     try {
       this.session = this.client.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+        model: textReplies ? LIVE_TEXT_MODEL : LIVE_AUDIO_MODEL,
         callbacks: {
           onopen: onOpen,
           onmessage: onMessage,
@@ -49,12 +111,15 @@ CORE RULES:
           onerror: onError,
         },
         config: {
-          responseModalities: [Modality.AUDIO],
+          responseModalities: [textReplies ? Modality.TEXT : Modality.AUDIO],
           inputAudioTranscription: {}, 
-          outputAudioTranscription: {}, 
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voiceName } },
-          },
+          ...(textReplies ? {} : {
+            outputAudioTranscription: {},
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voiceName } },
+            },
+          }),
+          ...(allowInterruptions === false ? { realtimeInputConfig: { activityHandling: ActivityHandling.NO_INTERRUPTION } } : {}),
           systemInstruction: systemInstruction,
           tools: tools ? [{ functionDeclarations: tools }] : undefined
         }
@@ -72,6 +137,27 @@ CORE RULES:
     }
   }
 
+  // Tells the server the mic stream paused so it can close the user's turn (used by mute and push-to-talk).
+  sendAudioStreamEnd() {
+    if (this.session) {
+      this.session.then(s => s.sendRealtimeInput({ audioStreamEnd: true }));
+    }
+  }
+
+  // A typed user turn; the model replies as it would to speech.
+  sendText(text: string) {
+    if (this.session) {
+      this.session.then(s => s.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }));
+    }
+  }
+
+  // Injects a note into the live conversation without ending the user's turn, e.g. when the scene changes.
+  sendContextNote(text: string) {
+    if (this.session) {
+      this.session.then(s => s.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: false }));
+    }
+  }
+
   async sendToolResponse(toolResponse: any) {
     if (this.session) {
       const s = await this.session;
@@ -79,15 +165,15 @@ CORE RULES:
     }
   }
 
+  // Doesn't wait for the socket: live.connect only settles once it opens, so a connection that never opened would
+  // hold up the caller forever. It's closed if it does open, and one that failed has nothing to close.
   async disconnect() {
-    if (this.session) {
-      const s = await this.session;
-      s.close();
-      this.session = null;
-    }
+    const session = this.session;
+    this.session = null;
+    session?.then(s => s.close(), () => {});
   }
 
-  async searchGrounding(query: string): Promise<{summary: string, links: {title: string, uri: string}[]}> {
+  async searchGrounding(query: string): Promise<SearchResult> {
     try {
       const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
       const response = await ai.models.generateContent({
@@ -113,6 +199,24 @@ CORE RULES:
     }
   }
 
+  // Base64 16-bit PCM at 24 kHz of `text` read in the given prebuilt voice, or null if synthesis failed.
+  async synthesizeSpeech(text: string, voiceName: string): Promise<string | null> {
+    try {
+      const response = await this.client.models.generateContent({
+        model: 'gemini-2.5-flash-preview-tts',
+        contents: [{ parts: [{ text: `Say naturally: ${text}` }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+        },
+      });
+      return response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data ?? null;
+    } catch (e) {
+      console.error("Speech synthesis failed:", e);
+      return null;
+    }
+  }
+
   async analyzeImage(base64Data: string, mimeType: string): Promise<string | undefined> {
     try {
       // Fix: Used the correct multimodal model 'gemini-2.5-flash'.
@@ -129,12 +233,21 @@ CORE RULES:
     }
   }
 
-  async generateReport(transcript: string): Promise<any> {
+  // With a mission, the report also grades whether the role-play goal was reached (returned under `mission`).
+  async generateReport(transcript: string, mission?: MissionContext | null): Promise<any> {
     try {
+      const missionText = mission ? `\n\nThis was the mission "${mission.mission.title}": ${mission.mission.description}
+Objectives: ${mission.mission.objectives.map(o => {
+        const done = mission.progress.completedObjectiveIds.includes(o.id);
+        return `${o.description} (${done ? 'marked complete during the session' : 'not marked complete'})`;
+      }).join('; ')}.
+Target phrases used: ${mission.progress.usedPhrases.join(', ') || 'none'} of ${mission.mission.targetPhrases.join(', ') || 'none'}.
+${mission.progress.outcome ? `Partner's wrap-up: ${mission.progress.outcome}\n` : ''}Also grade the mission: success means the user achieved the goal through their own English. Score it 0-100 and explain briefly.` : '';
       const response = await this.client.models.generateContent({
         model: 'gemini-2.5-flash',
-        contents: `Evaluate speaking performance based on this transcript:\n${transcript}`,
+        contents: `Evaluate speaking performance based on this transcript:\n${transcript}\n\n${SCORING_RUBRIC}${missionText}`,
         config: {
+          temperature: 0,
           responseMimeType: "application/json",
           responseSchema: {
             type: Type.OBJECT,
@@ -142,14 +255,47 @@ CORE RULES:
               total: { type: Type.NUMBER },
               fluency: { type: Type.NUMBER },
               vocabulary: { type: Type.NUMBER },
+              grammar: { type: Type.NUMBER },
+              pronunciation: { type: Type.NUMBER },
+              coherence: { type: Type.NUMBER },
+              interaction: { type: Type.NUMBER },
               nativeLike: { type: Type.NUMBER },
+              cefrLevel: { type: Type.STRING, enum: CEFR_LEVELS },
+              strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+              weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
+              evidence: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    criterion: { type: Type.STRING, enum: RUBRIC_CRITERIA },
+                    quote: { type: Type.STRING },
+                    note: { type: Type.STRING },
+                  },
+                  required: ["criterion", "quote", "note"]
+                }
+              },
               comment: { type: Type.STRING },
+              ...(mission ? {
+                mission: {
+                  type: Type.OBJECT,
+                  properties: {
+                    success: { type: Type.BOOLEAN },
+                    score: { type: Type.NUMBER },
+                    comment: { type: Type.STRING },
+                  },
+                  required: ["success", "score", "comment"]
+                }
+              } : {}),
             },
-            required: ["total", "fluency", "vocabulary", "nativeLike", "comment"]
+            required: [
+              "total", ...RUBRIC_CRITERIA, "nativeLike", "cefrLevel", "strengths", "weaknesses", "evidence", "comment",
+              ...(mission ? ["mission"] : []),
+            ]
           }
         }
       });
-      return response.text ? JSON.parse(response.text) : null;
+      return response.text ? keepVerifiedEvidence(JSON.parse(response.text), transcript) : null;
     } catch (e) {
       return null;
     }
@@ -157,10 +303,14 @@ CORE RULES:
 
   async generateGlobalReport(sessions: SavedSession[]): Promise<any> {
     try {
-      const historyText = sessions.map(s => s.messages.map(m => m.text).join(' ')).join('\n');
+      const historyText = sessions.map(s => {
+        const userTurns = s.messages.filter(m => m.role === 'user').map(m => m.text).join(' ');
+        const score = s.score ? ` (session score ${s.score.total})` : '';
+        return `[${s.date}]${score} ${userTurns}`;
+      }).join('\n');
       const response = await this.client.models.generateContent({
         model: 'gemini-2.5-flash',
-        contents: `Summarize progress report based on these sessions:\n${historyText}`,
+        contents: `Summarize the learner's overall English speaking progress across these sessions, oldest first. Score each field 0-100 and mention concrete trends in the comment:\n${historyText}`,
         config: {
           responseMimeType: "application/json",
           responseSchema: {
@@ -182,5 +332,3 @@ CORE RULES:
     }
   }
 }
-
-export const geminiService = new GeminiService();
@@ -0,0 +1,153 @@
+import { LiveServerMessage } from "@google/genai";
+import { Persona } from '../types';
+import { LlmProvider, LiveSessionConfig, llmProvider } from './llmProvider';
+
+export const MAX_RECONNECT_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 16000;
+
+// 'failed' means reconnecting was given up on; the caller should wrap up the session.
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+export type LiveSessionOptions = Omit<LiveSessionConfig, 'onOpen' | 'onMessage' | 'onClose' | 'onError' | 'conversationContext'>;
+
+export interface LiveConnectionCallbacks {
+  onOpen: (isReconnect: boolean) => void;
+  onMessage: (message: LiveServerMessage) => void;
+  onStatusChange: (status: ConnectionStatus, attempt: number) => void;
+  // Recent conversation to replay into the system instruction of a replacement session.
+  getResumeContext: () => string | null;
+}
+
+// Owns the lifecycle of one practice session across however many underlying live connections it takes:
+// unexpected drops are retried with exponential backoff, and events from replaced connections are ignored.
+export class LiveConnectionManager {
+  private service: LlmProvider;
+  private options: LiveSessionOptions | null = null;
+  private callbacks: LiveConnectionCallbacks | null = null;
+  private generation = 0;
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  status: ConnectionStatus = 'idle';
+
+  constructor(service: LlmProvider) {
+    this.service = service;
+  }
+
+  get isConnected() {
+    return this.status === 'connected';
+  }
+
+  // Rejects if the first connection can't be opened; only drops after that are retried.
+  async start(options: LiveSessionOptions, callbacks: LiveConnectionCallbacks) {
+    this.cancelRetry();
+    this.options = options;
+    this.callbacks = callbacks;
+    this.attempt = 0;
+    try {
+      await this.open(null, false);
+    } catch (e) {
+      await this.stop();
+      throw e;
+    }
+  }
+
+  // Replaces the live connection with one for a different persona, carrying the given context over.
+  switchPersona(persona: Persona, conversationContext: string) {
+    return this.reconnectWith({ persona }, conversationContext);
+  }
+
+  // For options that can't change on an open connection (voice, reply modality): reconnects with them applied.
+  // Never rejects: if the new connection fails, it's retried like any drop and ends in 'failed' if that runs out.
+  async reconnectWith(changes: Partial<LiveSessionOptions>, conversationContext: string) {
+    if (!this.options) return;
+    this.cancelRetry();
+    this.attempt = 0; // A fresh connection gets the full set of retries, whatever happened to the one it replaces.
+    this.options = { ...this.options, ...changes };
+    this.generation++; // Ignore the close event of the connection being replaced.
+    await this.service.disconnect();
+    // The session was already running, so failing to reopen it is a drop like any other.
+    await this.open(conversationContext, false).catch(() => this.handleDrop());
+  }
+
+  // Updates what future (re)connections are opened with, without touching the current connection.
+  updateOptions(changes: Partial<LiveSessionOptions>) {
+    if (this.options) this.options = { ...this.options, ...changes };
+  }
+
+  async stop() {
+    this.cancelRetry();
+    this.generation++;
+    this.setStatus('idle');
+    this.options = null;
+    this.callbacks = null;
+    await this.service.disconnect();
+  }
+
+  // Resolves once the connection opens, or once it's been replaced; rejects if it fails before opening.
+  private open(conversationContext: string | null, isReconnect: boolean): Promise<void> {
+    if (!this.options || !this.callbacks) return Promise.resolve();
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+    const { options, callbacks } = this;
+    this.setStatus(isReconnect ? 'reconnecting' : 'connecting');
+
+    return new Promise((resolve, reject) => {
+      let opened = false;
+      // Before the connection opens a failure is the caller's to handle; after that it's a drop to recover from.
+      const fail = (e: unknown) => {
+        if (!isCurrent()) return resolve();
+        if (opened) return this.handleDrop();
+        this.generation++; // An error is usually followed by a close; only react once.
+        reject(e);
+      };
+      this.service.connectLive({
+        ...options,
+        conversationContext,
+        onOpen: () => {
+          if (!isCurrent()) return resolve();
+          opened = true;
+          this.attempt = 0;
+          this.setStatus('connected');
+          callbacks.onOpen(isReconnect);
+          resolve();
+        },
+        onMessage: (message) => { if (isCurrent()) callbacks.onMessage(message); },
+        onClose: () => fail(new Error("The live connection closed before it opened.")),
+        onError: (e) => {
+          if (isCurrent()) console.error("Live connection error:", e);
+          fail(e);
+        },
+      }).catch(fail);
+    });
+  }
+
+  private handleDrop() {
+    if (!this.callbacks) return;
+    this.generation++; // An error is usually followed by a close; only react once.
+    if (this.attempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.setStatus('failed');
+      return;
+    }
+    // Exponential backoff with +/-20% jitter so a flapping network isn't hammered in lockstep.
+    const delay = Math.min(BASE_DELAY_MS * 2 ** this.attempt, MAX_DELAY_MS) * (0.8 + Math.random() * 0.4);
+    this.attempt++;
+    this.setStatus('reconnecting');
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.open(this.callbacks?.getResumeContext() ?? null, true).catch(() => this.handleDrop());
+    }, delay);
+  }
+
+  private cancelRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    this.status = status;
+    this.callbacks?.onStatusChange(status, this.attempt);
+  }
+}
+
+export const liveConnection = new LiveConnectionManager(llmProvider);
@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LiveServerMessage } from "@google/genai";
+import { LiveMessageHandler, AudioPlayback, PlayableClip, ToolCall, ToolRespond } from './liveMessageHandler';
+import { TranscriptRecorder } from './transcriptRecorder';
+
+const message = (content: object) => content as LiveServerMessage;
+const userText = (text: string) => message({ serverContent: { inputTranscription: { text } } });
+const aiText = (text: string) => message({ serverContent: { outputTranscription: { text } } });
+const modelText = (text: string) => message({ serverContent: { modelTurn: { parts: [{ text }] } } });
+const audio = (seconds: number) => message({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: String(seconds) } }] } } });
+const turnComplete = message({ serverContent: { turnComplete: true } });
+const interrupted = message({ serverContent: { interrupted: true } });
+const toolCall = (...calls: ToolCall[]) => message({ toolCall: { functionCalls: calls } });
+
+// A manual clock: "audio" payloads are the clip length in seconds, and clips end when the clock passes them.
+class FakePlayback implements AudioPlayback {
+  now = 0;
+  scheduled: { start: number; duration: number; stopped: boolean; fade: number; offset?: number }[] = [];
+  private playing: { end: number; onEnded: () => void }[] = [];
+
+  currentTime() {
+    return this.now;
+  }
+
+  async decode(base64Pcm: string): Promise<PlayableClip> {
+    const duration = Number(base64Pcm);
+    if (Number.isNaN(duration)) throw new Error('Unable to decode audio data');
+    const entry = { start: 0, duration, stopped: false, fade: 0 };
+    return {
+      duration,
+      start: (when, onEnded, offset = 0) => {
+        entry.start = when;
+        if (offset) Object.assign(entry, { offset });
+        this.scheduled.push(entry);
+        this.playing.push({ end: when + duration - offset, onEnded });
+      },
+      stop: (fadeSeconds = 0) => {
+        entry.stopped = true;
+        entry.fade = fadeSeconds;
+      },
+    };
+  }
+
+  advance(seconds: number) {
+    this.now += seconds;
+    const ended = this.playing.filter(p => p.end <= this.now);
+    this.playing = this.playing.filter(p => p.end > this.now);
+    ended.forEach(p => p.onEnded());
+  }
+}
+
+const setup = (onToolCall: (call: ToolCall, respond: ToolRespond) => Promise<void> = async (_, respond) => respond({ result: 'ok' })) => {
+  const transcript = new TranscriptRecorder({ personaId: 'sarah', sceneId: 'cafe' });
+  const playback = new FakePlayback();
+  const toolResponses: any[] = [];
+  const speaking: boolean[] = [];
+  const userTurns: string[] = [];
+  let turnsCompleted = 0;
+  let recordings = 0;
+  const handler = new LiveMessageHandler({
+    transcript,
+    playback,
+    sendToolResponse: async (response) => { toolResponses.push(response); },
+    onToolCall,
+    onAiSpeakingChange: (value) => speaking.push(value),
+    onUserTurn: (turn) => userTurns.push(turn.text),
+    onTurnComplete: () => { turnsCompleted++; },
+    recordingIdForTurn: () => `rec-${++recordings}`,
+  });
+  const play = async (...messages: LiveServerMessage[]) => {
+    for (const m of messages) await handler.handle(m);
+  };
+  return { handler, transcript, playback, toolResponses, speaking, userTurns, play, turnsCompleted: () => turnsCompleted };
+};
+
+describe('LiveMessageHandler', () => {
+  let env: ReturnType<typeof setup>;
+  beforeEach(() => { env = setup(); });
+
+  describe('transcript', () => {
+    it('assembles fragments into alternating turns', async () => {
+      await env.play(userText('I go'), userText(' to the cinema.'), aiText('Oh,'), aiText(' nice!'), turnComplete);
+      expect(env.transcript.getTurns().map(t => [t.role, t.text])).toEqual([
+        ['user', 'I go to the cinema.'],
+        ['model', 'Oh, nice!'],
+      ]);
+      expect(env.userTurns).toEqual(['I go to the cinema.']);
+      expect(env.turnsCompleted()).toBe(1);
+    });
+
+    it('attaches a recording id to spoken user turns only when there is text', async () => {
+      await env.play(turnComplete, userText('Hello there'), aiText('Hi!'), turnComplete);
+      const turns = env.transcript.getTurns();
+      expect(turns[0].recordingId).toBe('rec-1');
+      expect(turns[1].recordingId).toBeUndefined();
+    });
+
+    it('shows unfinished fragments as live text until the turn ends', async () => {
+      await env.play(userText('Well'), aiText('So'));
+      expect(env.transcript.getSnapshot().liveOutput).toBe('So');
+      expect(env.transcript.getTurns()).toHaveLength(1);
+    });
+
+    it('marks an AI turn cut off by the user as interrupted', async () => {
+      await env.play(aiText('Let me tell you about'), userText('Sorry,'), interrupted, userText(' one question'), turnComplete);
+      const turns = env.transcript.getTurns();
+      expect(turns[0]).toMatchObject({ role: 'model', text: 'Let me tell you about' });
+      expect(turns[0].interrupted).toBeFalsy(); // Already flushed, and no audio was cut off
+      expect(turns[1]).toMatchObject({ role: 'user', text: 'Sorry, one question' });
+
+      await env.play(aiText('Sure, the answer'), interrupted);
+      expect(env.transcript.getTurns()[2]).toMatchObject({ role: 'model', text: 'Sure, the answer', interrupted: true });
+    });
+
+    it('ignores model turn text unless text replies are on', async () => {
+      await env.play(modelText('thinking out loud'), turnComplete);
+      expect(env.transcript.getTurns()).toHaveLength(0);
+
+      env.handler.textReplies = true;
+      await env.play(modelText('Typed'), modelText(' reply.'), turnComplete);
+      expect(env.transcript.getTurns().map(t => t.text)).toEqual(['Typed reply.']);
+    });
+
+    it('skips thought parts in text replies', async () => {
+      env.handler.textReplies = true;
+      await env.play(message({ serverContent: { modelTurn: { parts: [{ text: 'plan the answer', thought: true }, { text: 'Hello!' }] } } }), turnComplete);
+      expect(env.transcript.getTurns().map(t => t.text)).toEqual(['Hello!']);
+    });
+  });
+
+  describe('tool calls', () => {
+    it('answers each call with its id and name, in order', async () => {
+      await env.play(toolCall({ id: 'a', name: 'teachPhrase', args: {} }, { id: 'b', name: 'reportCorrection', args: {} }));
+      expect(env.toolResponses).toEqual([
+        { functionResponses: { id: 'a', name: 'teachPhrase', response: { result: 'ok' } } },
+        { functionResponses: { id: 'b', name: 'reportCorrection', response: { result: 'ok' } } },
+      ]);
+    });
+
+    it('waits for one call to finish before dispatching the next', async () => {
+      const order: string[] = [];
+      env = setup(async (call, respond) => {
+        order.push(`start ${call.id}`);
+        await new Promise(resolve => setTimeout(resolve, call.id === 'a' ? 10 : 0));
+        order.push(`end ${call.id}`);
+        await respond({ result: 'ok' });
+      });
+      await env.play(toolCall({ id: 'a', name: 'x' }, { id: 'b', name: 'y' }));
+      expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+    });
+
+    it('answers with an error when a handler throws, so the model is not left waiting', async () => {
+      env = setup(async () => { throw new Error('boom'); });
+      const consoleError = console.error;
+      console.error = () => {};
+      try {
+        await env.play(toolCall({ id: 'a', name: 'changeScene' }));
+      } finally {
+        console.error = consoleError;
+      }
+      expect(env.toolResponses).toEqual([{ functionResponses: { id: 'a', name: 'changeScene', response: { error: 'The changeScene call failed on the client.' } } }]);
+    });
+
+    it('does not reject when the error answer cannot be sent either', async () => {
+      const handler = new LiveMessageHandler({
+        transcript: new TranscriptRecorder({ personaId: 'sarah', sceneId: 'cafe' }),
+        playback: null,
+        sendToolResponse: async () => { throw new Error('socket closed'); },
+        onToolCall: async (_, respond) => respond({ result: 'ok' }),
+      });
+      const consoleError = console.error;
+      console.error = () => {};
+      try {
+        await expect(handler.handle(toolCall({ id: 'a', name: 'changeScene' }))).resolves.toBeUndefined();
+      } finally {
+        console.error = consoleError;
+      }
+    });
+
+    it('lets a handler see the user turn that prompted the call', async () => {
+      let seen: string[] = [];
+      env = setup(async (_, respond) => {
+        env.handler.flushUserTurn();
+        seen = env.transcript.getTurns().map(t => t.text);
+        await respond({ result: 'recorded' });
+      });
+      await env.play(userText('I goed home'), toolCall({ id: 'a', name: 'reportCorrection' }));
+      expect(seen).toEqual(['I goed home']);
+      expect(env.userTurns).toEqual(['I goed home']);
+    });
+  });
+
+  describe('playback schedule', () => {
+    it('queues clips back to back', async () => {
+      await env.play(audio(1), audio(0.5), audio(2));
+      expect(env.playback.scheduled.map(c => c.start)).toEqual([0, 1, 1.5]);
+      expect(env.handler.scheduledUntil).toBe(3.5);
+      expect(env.handler.isPlaying).toBe(true);
+    });
+
+    it('starts a late clip at the current time instead of in the past', async () => {
+      await env.play(audio(1));
+      env.playback.advance(3);
+      await env.play(audio(1));
+      expect(env.playback.scheduled.map(c => c.start)).toEqual([0, 3]);
+    });
+
+    it('reports speaking until the last queued clip ends', async () => {
+      await env.play(audio(1), audio(1));
+      expect(env.speaking).toEqual([true, true]);
+      env.playback.advance(1);
+      expect(env.speaking).toEqual([true, true]);
+      env.playback.advance(1);
+      expect(env.speaking).toEqual([true, true, false]);
+      expect(env.handler.isPlaying).toBe(false);
+    });
+
+    it('stops every queued clip and restarts the schedule on interruption', async () => {
+      await env.play(audio(1), audio(1), interrupted);
+      expect(env.playback.scheduled.every(c => c.stopped)).toBe(true);
+      expect(env.speaking.at(-1)).toBe(false);
+      expect(env.handler.isPlaying).toBe(false);
+
+      env.playback.advance(0.2);
+      await env.play(audio(1));
+      expect(env.playback.scheduled.at(-1)).toMatchObject({ start: 0.2, stopped: false });
+    });
+
+    it('drops audio that finishes decoding after playback was replaced', async () => {
+      const pending = env.handler.handle(audio(1));
+      env.handler.setPlayback(null);
+      await pending;
+      expect(env.playback.scheduled).toHaveLength(0);
+      await env.play(audio(1));
+      expect(env.playback.scheduled).toHaveLength(0);
+    });
+  });
+
+  describe('barge-in', () => {
+    it('fades out instead of cutting the audio dead', async () => {
+      await env.play(aiText('Well'), audio(1), audio(1));
+      env.playback.advance(0.5);
+      await env.play(interrupted);
+      expect(env.playback.scheduled.map(c => c.fade)).toEqual([0.08, 0.08]);
+    });
+
+    it('records how much of a turn still being generated was heard', async () => {
+      await env.play(aiText('So the thing about'), audio(1), aiText(' London is'), audio(1));
+      env.playback.advance(1.5);
+      await env.play(interrupted);
+      expect(env.transcript.getTurns()).toEqual([expect.objectContaining({
+        role: 'model', text: 'So the thing about London is', interrupted: true, heard: { heardMs: 1500, receivedMs: 2000 },
+      })]);
+    });
+
+    it('marks an already complete turn whose audio was still playing', async () => {
+      await env.play(aiText('That was a long story.'), audio(3), turnComplete);
+      expect(env.transcript.getTurns()[0].interrupted).toBeFalsy();
+      env.playback.advance(1);
+      await env.play(userText('Wait'), interrupted);
+      expect(env.transcript.getTurns()[0]).toMatchObject({ interrupted: true, heard: { heardMs: 1000, receivedMs: 3000 } });
+    });
+
+    it('leaves a turn alone once its audio has finished', async () => {
+      await env.play(aiText('Short one.'), audio(1), turnComplete);
+      env.playback.advance(2);
+      await env.play(userText('Hi'), interrupted);
+      expect(env.transcript.getTurns()[0].interrupted).toBeFalsy();
+    });
+
+    it('only measures the audio of the turn being cut off', async () => {
+      await env.play(aiText('First.'), audio(1), turnComplete, aiText('Second'), audio(1));
+      env.playback.advance(1.25);
+      await env.play(interrupted);
+      const [first, second] = env.transcript.getTurns();
+      expect(first.interrupted).toBeFalsy();
+      expect(second).toMatchObject({ text: 'Second', interrupted: true, heard: { heardMs: 250, receivedMs: 1000 } });
+    });
+
+    it('marks text replies as interrupted without audio figures', async () => {
+      env.handler.textReplies = true;
+      await env.play(modelText('Typing away'), interrupted);
+      const [turn] = env.transcript.getTurns();
+      expect(turn.interrupted).toBe(true);
+      expect(turn.heard).toBeUndefined();
+    });
+  });
+
+  describe('replay', () => {
+    it('has nothing to replay before the partner has spoken', async () => {
+      expect(env.handler.canReplay).toBe(false);
+      await env.handler.replayLastSentence();
+      expect(env.playback.scheduled).toHaveLength(0);
+    });
+
+    it('replays a one-sentence turn from the start', async () => {
+      await env.play(aiText('Nice to meet you.'), audio(1), audio(1), turnComplete);
+      env.playback.advance(5);
+      await env.handler.replayLastSentence();
+      expect(env.playback.scheduled.slice(2)).toEqual([
+        expect.objectContaining({ start: 5, duration: 1 }),
+        expect.objectContaining({ start: 6, duration: 1 }),
+      ]);
+      expect(env.speaking.at(-1)).toBe(true);
+    });
+
+    it('starts just before the last sentence, skipping whole clips', async () => {
+      // "Four" starts 15/35 of the way in: 1.71s into 4s of audio, 1.41s after the lead-in.
+      await env.play(aiText('One two three. Four five six seven.'), audio(1), audio(1), audio(2), turnComplete);
+      env.playback.advance(10);
+      await env.handler.replayLastSentence();
+      const replayed = env.playback.scheduled.slice(3);
+      expect(replayed).toHaveLength(2);
+      expect(replayed[0].start).toBe(10);
+      expect(replayed[0].offset).toBeCloseTo(4 * 15 / 35 - 0.3 - 1);
+      expect(replayed[1].start).toBeCloseTo(10 + 1 - replayed[0].offset!);
+    });
+
+    it('keeps the cut-off turn for replay and forgets it when the next turn arrives', async () => {
+      await env.play(aiText('Hold on.'), audio(2));
+      env.playback.advance(0.5);
+      await env.play(interrupted);
+      expect(env.handler.canReplay).toBe(true);
+
+      await env.play(aiText('Anyway'), audio(1));
+      env.playback.advance(2);
+      await env.handler.replayLastSentence();
+      expect(env.playback.scheduled.at(-1)).toMatchObject({ start: 2.5, duration: 1 });
+    });
+  });
+
+  it('replays a full exchange with a correction', async () => {
+    env = setup(async (call, respond) => {
+      if (call.name !== 'reportCorrection') return respond({ error: `Unknown function "${call.name}".` });
+      env.handler.flushUserTurn();
+      env.transcript.attachCorrection({ original: 'I go', corrected: 'I went', category: 'grammar', explanation: 'Past tense.' });
+      await respond({ result: 'recorded' });
+    });
+    await env.play(
+      userText('I go to the cinema yesterday.'),
+      toolCall({ id: 'c1', name: 'reportCorrection' }),
+      aiText('Oh, you went to the cinema?'),
+      audio(2),
+      turnComplete,
+    );
+    const [user, model] = env.transcript.getTurns();
+    expect(user.corrections?.[0]).toMatchObject({ original: 'I go', corrected: 'I went' });
+    expect(user.recordingId).toBe('rec-1');
+    expect(model.text).toBe('Oh, you went to the cinema?');
+    expect(env.toolResponses).toEqual([{ functionResponses: { id: 'c1', name: 'reportCorrection', response: { result: 'recorded' } } }]);
+    expect(env.playback.scheduled).toEqual([{ start: 0, duration: 2, stopped: false, fade: 0 }]);
+  });
+});
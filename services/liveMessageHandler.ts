@@ -0,0 +1,276 @@
+import { LiveServerMessage } from "@google/genai";
+import { ChatMessage, HeardAudio } from '../types';
+import { decode, decodeAudioData } from '../utils/audioUtils';
+import { lastSentenceShare } from '../utils/transcriptExport';
+import { TranscriptRecorder } from './transcriptRecorder';
+
+export interface ToolCall {
+  id?: string;
+  name?: string;
+  args?: Record<string, unknown>;
+}
+
+export type ToolRespond = (response: Record<string, unknown>) => Promise<void>;
+
+// A decoded chunk of AI speech, ready to be scheduled on the output clock.
+export interface PlayableClip {
+  duration: number; // Seconds of playback, at the rate the clip was decoded for
+  start(when: number, onEnded: () => void, offset?: number): void; // `offset` skips into the clip, in the same seconds
+  stop(fadeSeconds?: number): void; // Ramps the volume down first so a cut-off doesn't click
+}
+
+// The output side of the audio graph: an AudioContext in the app, a fake clock in tests.
+export interface AudioPlayback {
+  currentTime(): number;
+  decode(base64Pcm: string): Promise<PlayableClip>;
+}
+
+// Live API audio is 24 kHz mono 16-bit PCM; each clip is a buffer source feeding `destination`. The rate is read
+// per clip, so a speed change applies from the next clip on. Like any buffer playback rate it also shifts the pitch.
+export function createWebAudioPlayback(ctx: AudioContext, destination: AudioNode, playbackRate: () => number = () => 1): AudioPlayback {
+  return {
+    currentTime: () => ctx.currentTime,
+    decode: async (base64Pcm) => {
+      const buffer = await decodeAudioData(decode(base64Pcm), ctx, 24000, 1);
+      const rate = playbackRate();
+      const source = ctx.createBufferSource();
+      const gain = ctx.createGain();
+      source.buffer = buffer;
+      source.playbackRate.value = rate;
+      source.connect(gain);
+      gain.connect(destination);
+      return {
+        duration: buffer.duration / rate,
+        start: (when, onEnded, offset = 0) => {
+          source.addEventListener('ended', onEnded);
+          source.start(when, offset * rate);
+        },
+        stop: (fadeSeconds = 0) => {
+          const now = ctx.currentTime;
+          if (fadeSeconds > 0) {
+            gain.gain.setValueAtTime(gain.gain.value, now);
+            gain.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+          }
+          source.stop(now + fadeSeconds);
+        },
+      };
+    },
+  };
+}
+
+export interface LiveMessageHandlerOptions {
+  transcript: TranscriptRecorder;
+  playback: AudioPlayback | null;
+  sendToolResponse: (toolResponse: any) => Promise<void>;
+  onToolCall: (call: ToolCall, respond: ToolRespond) => Promise<void>;
+  onAiSpeakingChange?: (speaking: boolean) => void;
+  onUserTurn?: (turn: ChatMessage) => void;
+  onTurnComplete?: () => void;
+  recordingIdForTurn?: () => string | undefined; // Asked right before a spoken user turn is flushed
+}
+
+const FADE_OUT_SECONDS = 0.08;
+const REPLAY_LEAD_IN_SECONDS = 0.3;
+
+interface ScheduledAudio {
+  start: number;
+  duration: number;
+}
+
+// Turns the live API's message stream into transcript turns, tool dispatch and gapless audio playback.
+// Kept free of React and Web Audio so it can be driven by recorded message sequences in tests.
+export class LiveMessageHandler {
+  textReplies = false; // Take model turn text as the reply instead of the audio transcription
+  private options: LiveMessageHandlerOptions;
+  private nextStartTime = 0;
+  private clips = new Set<PlayableClip>();
+  // Audio of the AI turn currently being heard, and that turn once its text has been flushed to the transcript.
+  // Playback runs behind generation, so the user can cut in on a turn whose text is already complete.
+  private turnAudio: ScheduledAudio[] = [];
+  private turnMessage: ChatMessage | null = null;
+  private turnClosed = false; // Flushed or cut off; the next text or audio starts a new turn
+  // The most recent AI turn's audio as received, kept for "replay last sentence".
+  private replayPcm: string[] = [];
+  private replayText = '';
+
+  constructor(options: LiveMessageHandlerOptions) {
+    this.options = options;
+  }
+
+  get isPlaying() {
+    return this.clips.size > 0;
+  }
+
+  // When the last scheduled clip will finish, on the playback clock.
+  get scheduledUntil() {
+    return this.nextStartTime;
+  }
+
+  get canReplay() {
+    return this.replayPcm.length > 0;
+  }
+
+  async handle(message: LiveServerMessage) {
+    const { transcript } = this.options;
+    const serverContent = message.serverContent;
+
+    if (serverContent?.inputTranscription?.text) {
+      this.flushAiTurn();
+      transcript.appendUser(serverContent.inputTranscription.text);
+    }
+    if (serverContent?.outputTranscription?.text) {
+      this.flushUserTurn();
+      this.closePreviousTurn();
+      transcript.appendAi(serverContent.outputTranscription.text);
+    }
+    // Text-only replies arrive as model turn text rather than as a transcription of audio.
+    const replyText = this.textReplies ? serverContent?.modelTurn?.parts?.map(part => part.thought ? '' : part.text ?? '').join('') : '';
+    if (replyText) {
+      this.flushUserTurn();
+      this.closePreviousTurn();
+      transcript.appendAi(replyText);
+    }
+    if (serverContent?.turnComplete) {
+      this.flushUserTurn();
+      this.flushAiTurn();
+      this.options.onTurnComplete?.();
+    }
+
+    for (const call of message.toolCall?.functionCalls ?? []) await this.dispatch(call);
+
+    const base64Audio = serverContent?.modelTurn?.parts?.find?.(part => part.inlineData?.data)?.inlineData?.data;
+    if (base64Audio) {
+      // A chunk that won't decode is skipped; the transcript still carries what was said.
+      try {
+        await this.schedule(base64Audio);
+      } catch (e) {
+        console.error("Failed to play partner audio:", e);
+      }
+    }
+
+    if (serverContent?.interrupted) this.interrupt();
+  }
+
+  // Barge-in: fade out whatever is playing and mark the AI turn as cut off, with how much of it was actually heard.
+  // Also used when the app itself cuts the turn short (reconnects, hanging up).
+  interrupt() {
+    const { transcript } = this.options;
+    const heard = this.measureHeard();
+    const turn = this.turnMessage;
+    this.stopPlayback(FADE_OUT_SECONDS);
+    const flushed = transcript.flushAi(true, heard);
+    if (flushed) this.replayText = flushed.text;
+    else if (turn && heard && heard.heardMs < heard.receivedMs) transcript.markInterrupted(turn, heard);
+  }
+
+  // Plays the most recent AI turn's audio again from the start of its last sentence, located by its share of the text.
+  async replayLastSentence() {
+    const playback = this.options.playback;
+    if (!playback || !this.canReplay) return;
+    this.stopPlayback();
+    const clips = await Promise.all(this.replayPcm.map(pcm => playback.decode(pcm)));
+    if (playback !== this.options.playback) return;
+    const total = clips.reduce((sum, clip) => sum + clip.duration, 0);
+    // A little lead-in, since the text share is only an estimate of where the sentence starts in the audio.
+    let skip = Math.max(0, total * lastSentenceShare(this.replayText) - REPLAY_LEAD_IN_SECONDS);
+    for (const clip of clips) {
+      if (skip >= clip.duration) {
+        skip -= clip.duration;
+        continue;
+      }
+      this.queue(playback, clip, skip);
+      skip = 0;
+    }
+  }
+
+  // Returns the finished user turn, if one was pending.
+  flushUserTurn(): ChatMessage | null {
+    const { transcript } = this.options;
+    const recordingId = transcript.hasPendingUser ? this.options.recordingIdForTurn?.() : undefined;
+    const turn = transcript.flushUser(recordingId);
+    if (turn) this.options.onUserTurn?.(turn);
+    return turn;
+  }
+
+  stopPlayback(fadeSeconds = 0) {
+    this.clips.forEach(clip => { try { clip.stop(fadeSeconds); } catch (e) {} });
+    this.clips.clear();
+    this.nextStartTime = 0;
+    this.turnAudio = [];
+    this.turnMessage = null;
+    this.turnClosed = true;
+    this.options.onAiSpeakingChange?.(false);
+  }
+
+  setPlayback(playback: AudioPlayback | null) {
+    this.stopPlayback();
+    this.options = { ...this.options, playback };
+  }
+
+  private flushAiTurn() {
+    const turn = this.options.transcript.flushAi();
+    if (!turn) return;
+    this.turnMessage = turn;
+    this.turnClosed = true;
+    this.replayText = turn.text;
+  }
+
+  // Text or audio arriving after the previous turn was flushed or cut off belongs to a new turn.
+  private closePreviousTurn() {
+    if (!this.turnClosed) return;
+    this.turnAudio = [];
+    this.turnMessage = null;
+    this.turnClosed = false;
+    this.replayPcm = [];
+    this.replayText = '';
+  }
+
+  private measureHeard(): HeardAudio | undefined {
+    const playback = this.options.playback;
+    if (!playback || this.turnAudio.length === 0) return undefined;
+    const now = playback.currentTime();
+    const seconds = (sum: number, a: ScheduledAudio) => sum + a.duration;
+    const played = (sum: number, a: ScheduledAudio) => sum + Math.min(a.duration, Math.max(0, now - a.start));
+    return {
+      heardMs: Math.round(this.turnAudio.reduce(played, 0) * 1000),
+      receivedMs: Math.round(this.turnAudio.reduce(seconds, 0) * 1000),
+    };
+  }
+
+  private async dispatch(call: ToolCall) {
+    const respond: ToolRespond = (response) =>
+      this.options.sendToolResponse({ functionResponses: { id: call.id, name: call.name, response } });
+    try {
+      await this.options.onToolCall(call, respond);
+    } catch (e) {
+      console.error(`Tool call ${call.name} failed:`, e);
+      // Usually the connection is gone if even this can't be sent; the reconnect takes it from there.
+      await respond({ error: `The ${call.name} call failed on the client.` })
+        .catch(err => console.error(`Failed to answer the ${call.name} call:`, err));
+    }
+  }
+
+  // Clips are queued back to back on the output clock; a clip that arrives late starts immediately.
+  private async schedule(base64Audio: string) {
+    const playback = this.options.playback;
+    if (!playback) return;
+    const clip = await playback.decode(base64Audio);
+    if (playback !== this.options.playback) return; // Replaced while decoding
+    this.closePreviousTurn();
+    this.replayPcm.push(base64Audio);
+    this.turnAudio.push({ start: this.queue(playback, clip), duration: clip.duration });
+  }
+
+  // Returns when the clip starts.
+  private queue(playback: AudioPlayback, clip: PlayableClip, offset = 0) {
+    const startAt = Math.max(this.nextStartTime, playback.currentTime());
+    clip.start(startAt, () => {
+      this.clips.delete(clip);
+      if (this.clips.size === 0) this.options.onAiSpeakingChange?.(false);
+    }, offset);
+    this.nextStartTime = startAt + clip.duration - offset;
+    this.clips.add(clip);
+    this.options.onAiSpeakingChange?.(true);
+    return startAt;
+  }
+}
@@ -0,0 +1,56 @@
+import { LiveServerMessage, Blob } from "@google/genai";
+import { Persona, Scene, Mission, MissionProgress, ReviewCard, SavedSession } from '../types';
+import { GeminiService } from './gemini';
+import { MockProvider } from './mockProvider';
+
+export interface LiveSessionConfig {
+  persona: Persona;
+  scene: Scene;
+  mission?: Mission | null;
+  reviewCards?: ReviewCard[] | null; // Turns the session into a short spoken review drill
+  textReplies?: boolean; // Reply in text instead of voice, for typed conversations
+  allowInterruptions?: boolean; // Whether the user's speech cuts the partner off (default true)
+  onOpen: () => void;
+  onMessage: (message: LiveServerMessage) => void;
+  onClose: () => void;
+  onError: (error: any) => void;
+  tools?: any[];
+  imageContext?: string | null;
+  searchContext?: string | null;
+  conversationContext?: string | null; // Recent turns to carry over when reconnecting mid-conversation
+}
+
+export interface SearchResult {
+  summary: string;
+  links: { title: string; uri: string }[];
+}
+
+export interface MissionContext {
+  mission: Mission;
+  progress: MissionProgress;
+}
+
+// Everything the app needs from a language model backend. At most one live session is open at a time;
+// the send* methods address it and are no-ops when there is none. Report methods resolve to raw JSON
+// (normalized by sessionRepository.normalizeScore) or null on failure.
+export interface LlmProvider {
+  connectLive(config: LiveSessionConfig): Promise<unknown>;
+  sendAudio(data: Blob): void;
+  sendAudioStreamEnd(): void;
+  sendText(text: string): void;
+  sendContextNote(text: string): void;
+  sendToolResponse(toolResponse: any): Promise<void>;
+  disconnect(): Promise<void>;
+  searchGrounding(query: string): Promise<SearchResult>;
+  analyzeImage(base64Data: string, mimeType: string): Promise<string | undefined>;
+  synthesizeSpeech(text: string, voiceName: string): Promise<string | null>; // Base64 16-bit PCM at 24 kHz
+  generateReport(transcript: string, mission?: MissionContext | null): Promise<any>;
+  generateGlobalReport(sessions: SavedSession[]): Promise<any>;
+}
+
+// Picked at build time from LLM_PROVIDER (see vite.config.ts). The mock needs no API key or network.
+export function createProvider(name: string | undefined): LlmProvider {
+  return name === 'mock' ? new MockProvider() : new GeminiService();
+}
+
+export const llmProvider = createProvider(process.env.LLM_PROVIDER);
@@ -0,0 +1,149 @@
+import { Blob } from "@google/genai";
+import { AudioCapture } from './audioCapture';
+
+export type MicMode = 'open' | 'push-to-talk';
+
+export interface MicState {
+  mode: MicMode;
+  muted: boolean;
+  talkHeld: boolean; // Push-to-talk key or button currently held
+  releaseTrackOnMute: boolean;
+  allowBargeIn: boolean; // Talking over the partner cuts them off; off for learners who think aloud while listening
+  capturing: boolean; // A live microphone track is attached to the capture graph
+  transmitting: boolean; // Audio chunks are actually being sent to the session
+}
+
+interface MicSink {
+  send: (chunk: Blob) => void;
+  endStream: () => void;
+}
+
+export const PUSH_TO_TALK_KEY = 'Space';
+
+const SETTINGS_KEY = 'deepsink_mic_settings';
+
+// Single source of truth for whether microphone audio leaves the browser. Audio callbacks consult this
+// object directly instead of React state, so muting takes effect on the very next chunk.
+export class MicController {
+  private capture: AudioCapture | null = null;
+  private sink: MicSink | null = null;
+  private listeners = new Set<(state: MicState) => void>();
+  private state: MicState;
+
+  constructor() {
+    let saved: Partial<MicState> = {};
+    try { saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'); } catch (e) {}
+    this.state = {
+      mode: saved.mode === 'push-to-talk' ? 'push-to-talk' : 'open',
+      muted: false,
+      talkHeld: false,
+      releaseTrackOnMute: !!saved.releaseTrackOnMute,
+      allowBargeIn: saved.allowBargeIn !== false,
+      capturing: false,
+      transmitting: false,
+    };
+  }
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore.
+  getState = (): MicState => this.state;
+
+  subscribe = (listener: (state: MicState) => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  attach(capture: AudioCapture, sink: MicSink) {
+    this.capture = capture;
+    this.sink = sink;
+    this.watchTracks();
+    this.update({});
+  }
+
+  detach() {
+    this.capture = null;
+    this.sink = null;
+    this.update({ talkHeld: false });
+  }
+
+  // Called by AudioCapture for every PCM batch.
+  handleChunk = (chunk: Blob) => {
+    if (this.state.transmitting) this.sink?.send(chunk);
+  };
+
+  async setMuted(muted: boolean) {
+    if (muted === this.state.muted) return;
+    this.update({ muted });
+    if (!this.capture) return;
+    if (muted) {
+      if (this.state.releaseTrackOnMute) this.releaseTrack();
+      return;
+    }
+    // Reacquired whatever the setting says now: the track may have been released under an earlier one.
+    if (this.capture.hasLiveTrack) return;
+    try {
+      this.capture.attachStream(await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } }));
+      this.watchTracks();
+    } catch (e) {
+      console.error("Failed to reacquire microphone:", e);
+      this.update({ muted: true });
+      return;
+    }
+    this.update({});
+  }
+
+  toggleMute() {
+    return this.setMuted(!this.state.muted);
+  }
+
+  setTalkHeld(talkHeld: boolean) {
+    if (talkHeld !== this.state.talkHeld) this.update({ talkHeld });
+  }
+
+  setMode(mode: MicMode) {
+    this.update({ mode, talkHeld: false });
+    this.persist();
+  }
+
+  setReleaseTrackOnMute(releaseTrackOnMute: boolean) {
+    this.update({ releaseTrackOnMute });
+    this.persist();
+    // Turning it on while already muted releases the track now rather than at the next mute.
+    if (releaseTrackOnMute && this.state.muted) this.releaseTrack();
+  }
+
+  // Only read when a live connection is set up; see App's changeAllowBargeIn.
+  setAllowBargeIn(allowBargeIn: boolean) {
+    this.update({ allowBargeIn });
+    this.persist();
+  }
+
+  private releaseTrack() {
+    if (!this.capture) return;
+    this.capture.releaseStream();
+    this.update({});
+  }
+
+  private watchTracks() {
+    this.capture?.stream?.getAudioTracks().forEach(track => {
+      track.addEventListener('ended', () => this.update({}), { once: true });
+    });
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify({ mode: this.state.mode, releaseTrackOnMute: this.state.releaseTrackOnMute, allowBargeIn: this.state.allowBargeIn }));
+    } catch (e) {}
+  }
+
+  private update(patch: Partial<MicState>) {
+    const next = { ...this.state, ...patch };
+    next.capturing = !!this.capture?.hasLiveTrack;
+    next.transmitting = next.capturing && !next.muted && (next.mode === 'open' || next.talkHeld);
+    // Closing the gate mid-utterance: let the server end the user's turn instead of waiting for silence.
+    if (this.state.transmitting && !next.transmitting) this.sink?.endStream();
+    this.state = next;
+    this.listeners.forEach(listener => listener(next));
+  }
+}
+
+export const micController = new MicController();
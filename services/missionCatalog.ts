@@ -0,0 +1,75 @@
+import catalogJson from '../data/missions.json';
+import { Mission, MissionObjective, MissionProgress } from '../types';
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function parseObjective(raw: any): MissionObjective | null {
+  if (!raw || typeof raw.id !== 'string' || !ID_PATTERN.test(raw.id)) return null;
+  if (typeof raw.description !== 'string' || !raw.description.trim()) return null;
+  return { id: raw.id, description: raw.description.trim() };
+}
+
+// Validates one catalog entry (see data/missions.schema.json). Scene and persona IDs are resolved by the caller.
+export function parseMission(raw: any): Mission | null {
+  if (!raw || typeof raw !== 'object') return null;
+  if (typeof raw.id !== 'string' || !ID_PATTERN.test(raw.id)) return null;
+  if (typeof raw.title !== 'string' || !raw.title.trim()) return null;
+  if (typeof raw.sceneId !== 'string' || typeof raw.personaId !== 'string') return null;
+  const objectives = (Array.isArray(raw.objectives) ? raw.objectives : [])
+    .map(parseObjective)
+    .filter((o: MissionObjective | null): o is MissionObjective => !!o);
+  if (objectives.length === 0) return null;
+  return {
+    id: raw.id,
+    title: raw.title.trim(),
+    description: typeof raw.description === 'string' ? raw.description : '',
+    sceneId: raw.sceneId,
+    personaId: raw.personaId,
+    objectives,
+    targetPhrases: Array.isArray(raw.targetPhrases) ? raw.targetPhrases.filter((p: unknown): p is string => typeof p === 'string' && !!p.trim()) : [],
+  };
+}
+
+function parseCatalog(raw: any): Mission[] {
+  const entries = Array.isArray(raw?.missions) ? raw.missions : [];
+  return entries.map((m: unknown) => parseMission(m)).filter((m: Mission | null): m is Mission => !!m);
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[’']/g, "'").replace(/[^a-z0-9' ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Target phrases from `phrases` that appear in `text`, ignoring case and punctuation.
+export function findUsedPhrases(text: string, phrases: string[]): string[] {
+  const haystack = ` ${normalize(text)} `;
+  return phrases.filter(phrase => {
+    const needle = normalize(phrase);
+    return needle && haystack.includes(` ${needle} `);
+  });
+}
+
+export const createMissionProgress = (mission: Mission): MissionProgress => ({
+  missionId: mission.id,
+  completedObjectiveIds: [],
+  usedPhrases: [],
+  outcome: null,
+});
+
+export const isMissionComplete = (mission: Mission, progress: MissionProgress) =>
+  mission.objectives.every(o => progress.completedObjectiveIds.includes(o.id));
+
+export class MissionCatalog {
+  private missions: Mission[];
+
+  constructor() {
+    this.missions = parseCatalog(catalogJson);
+  }
+
+  getAll(): Mission[] {
+    return this.missions;
+  }
+
+  get(id: string): Mission | undefined {
+    return this.missions.find(m => m.id === id);
+  }
+}
+
+export const missionCatalog = new MissionCatalog();
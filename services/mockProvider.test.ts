@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Persona, Scene } from '../types';
+import { createBlobFromPcm16, decode } from '../utils/audioUtils';
+import { formatTurns } from '../utils/transcriptExport';
+import { LiveConnectionManager } from './liveConnection';
+import { LiveMessageHandler, AudioPlayback, PlayableClip, ToolCall } from './liveMessageHandler';
+import { MockProvider, MOCK_SCRIPT } from './mockProvider';
+import { TranscriptRecorder } from './transcriptRecorder';
+
+const persona: Persona = {
+  id: 'sarah', name: 'Sarah', role: 'Friend', description: '', voiceName: 'Kore', avatarUrl: '',
+  speakingSpeed: 'natural', slangLevel: 'light', correctionStyle: 'shadowing', openingLine: '',
+};
+const scene: Scene = { id: 'cafe', name: 'Café', type: 'image', brief: { setting: 'A café', goals: [], vocabulary: [] } };
+
+// Nothing is played; a clip just reports how long its 16-bit 24 kHz PCM runs, as createWebAudioPlayback would decode it.
+class SilentPlayback implements AudioPlayback {
+  clips: number[] = [];
+
+  currentTime() {
+    return 0;
+  }
+
+  async decode(base64Pcm: string): Promise<PlayableClip> {
+    const duration = decode(base64Pcm).byteLength / 2 / 24000;
+    return { duration, start: () => { this.clips.push(duration); }, stop: () => {} };
+  }
+}
+
+// 100 ms mic chunks at 16 kHz, as the capture pipeline sends them.
+const micChunk = (amplitude: number) =>
+  createBlobFromPcm16(new Int16Array(1600).map((_, i) => Math.round(amplitude * Math.sin(i / 5))));
+
+const setup = async () => {
+  const provider = new MockProvider();
+  const connection = new LiveConnectionManager(provider);
+  const transcript = new TranscriptRecorder({ personaId: persona.id, sceneId: scene.id });
+  const playback = new SilentPlayback();
+  const toolCalls: ToolCall[] = [];
+  const handler = new LiveMessageHandler({
+    transcript,
+    playback,
+    sendToolResponse: (response) => provider.sendToolResponse(response),
+    onToolCall: async (call, respond) => {
+      toolCalls.push(call);
+      await respond({ result: `${call.name} recorded` });
+    },
+  });
+  const started = connection.start({
+    persona,
+    scene,
+    tools: [{ name: 'reportCorrection' }, { name: 'teachPhrase' }],
+  }, {
+    onOpen: () => {},
+    onMessage: (message) => handler.handle(message),
+    onStatusChange: () => {},
+    getResumeContext: () => null,
+  });
+  await vi.advanceTimersByTimeAsync(100);
+  await started;
+  return { provider, connection, transcript, playback, toolCalls };
+};
+
+// Enough for any scripted reply to finish streaming.
+const waitForReply = () => vi.advanceTimersByTimeAsync(5000);
+
+describe('MockProvider', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('opens through the connection manager and greets the user', async () => {
+    const { connection, transcript, playback } = await setup();
+    expect(connection.status).toBe('connected');
+    await waitForReply();
+    expect(transcript.getTurns().map(t => [t.role, t.text])).toEqual([
+      ['model', "Hey! Good to see you. So, what have you been up to this week?"],
+    ]);
+    // 14 words at 2.5 words a second.
+    expect(playback.clips).toHaveLength(1);
+    expect(playback.clips[0]).toBeCloseTo(5.6);
+  });
+
+  it('answers a spoken turn with the scripted transcript and tool call', async () => {
+    const { provider, transcript, toolCalls } = await setup();
+    await waitForReply();
+    for (let i = 0; i < 5; i++) provider.sendAudio(micChunk(3000));
+    for (let i = 0; i < 10; i++) provider.sendAudio(micChunk(0));
+    await waitForReply();
+
+    const [exchange] = MOCK_SCRIPT;
+    expect(transcript.getTurns().slice(1).map(t => [t.role, t.text])).toEqual([
+      ['user', exchange.user],
+      ['model', exchange.reply],
+    ]);
+    expect(toolCalls).toEqual([{ id: 'mock-call-1', name: 'reportCorrection', args: exchange.toolCall!.args }]);
+    expect(provider.received.toolResponses).toEqual([
+      { functionResponses: { id: 'mock-call-1', name: 'reportCorrection', response: { result: 'reportCorrection recorded' } } },
+    ]);
+  });
+
+  it('ignores a mic that never gets loud enough to count as speech', async () => {
+    const { provider, transcript } = await setup();
+    await waitForReply();
+    for (let i = 0; i < 15; i++) provider.sendAudio(micChunk(200));
+    await waitForReply();
+    expect(transcript.getTurns()).toHaveLength(1);
+  });
+
+  it('answers typed turns in script order', async () => {
+    const { provider, transcript, toolCalls } = await setup();
+    await waitForReply();
+    for (const exchange of MOCK_SCRIPT.slice(0, 2)) {
+      transcript.addTypedUser(exchange.user);
+      provider.sendText(exchange.user);
+      await waitForReply();
+    }
+
+    expect(provider.received.texts).toEqual(MOCK_SCRIPT.slice(0, 2).map(e => e.user));
+    expect(transcript.getTurns().slice(1).map(t => [t.role, t.text])).toEqual(
+      MOCK_SCRIPT.slice(0, 2).flatMap(e => [['user', e.user], ['model', e.reply]]));
+    expect(toolCalls.map(c => [c.id, c.name])).toEqual([['mock-call-1', 'reportCorrection'], ['mock-call-2', 'teachPhrase']]);
+    expect(provider.received.toolResponses.map(r => r.functionResponses.id)).toEqual(['mock-call-1', 'mock-call-2']);
+  });
+
+  it('only makes tool calls the session declared', async () => {
+    const provider = new MockProvider();
+    const messages: unknown[] = [];
+    await provider.connectLive({
+      persona, scene, tools: [],
+      onOpen: () => {}, onMessage: (message) => messages.push(message), onClose: () => {}, onError: () => {},
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    provider.sendText(MOCK_SCRIPT[0].user);
+    await waitForReply();
+    expect(messages.some(m => (m as any).toolCall)).toBe(false);
+  });
+
+  it('scores the transcript with evidence quoted from the first user turn', async () => {
+    const { provider, transcript } = await setup();
+    await waitForReply();
+    transcript.addTypedUser(MOCK_SCRIPT[0].user);
+    provider.sendText(MOCK_SCRIPT[0].user);
+    await waitForReply();
+
+    const report = await provider.generateReport(formatTurns(transcript.getTurns()));
+    expect(report).toMatchObject({ total: 68, cefrLevel: 'B1' });
+    expect(report.evidence).toEqual([expect.objectContaining({ criterion: 'grammar', quote: MOCK_SCRIPT[0].user })]);
+    expect(report.mission).toBeUndefined();
+  });
+
+  it('has no report for a session where the user said nothing', async () => {
+    expect(await new MockProvider().generateReport('Sarah: Hello?')).toBeNull();
+  });
+
+  it('describes any image', async () => {
+    expect(await new MockProvider().analyzeImage()).toBe("A sunny street café with people chatting at small tables.");
+  });
+
+  it('closes when the session stops', async () => {
+    const { connection, transcript } = await setup();
+    await connection.stop();
+    await waitForReply();
+    expect(connection.status).toBe('idle');
+    // The greeting was still streaming, so the rest of it and its turnComplete never arrive.
+    expect(transcript.getTurns()).toEqual([]);
+  });
+});
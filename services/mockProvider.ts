@@ -0,0 +1,226 @@
+import { Blob, LiveServerMessage } from "@google/genai";
+import { SavedSession } from '../types';
+import { decode, encode } from '../utils/audioUtils';
+import { LlmProvider, LiveSessionConfig, SearchResult, MissionContext } from './llmProvider';
+
+interface ScriptedExchange {
+  user: string; // Canned transcription for a spoken user turn (typed turns use their own text)
+  reply: string;
+  toolCall?: { name: string; args: Record<string, unknown> };
+}
+
+const GREETING = "Hey! Good to see you. So, what have you been up to this week?";
+
+// Replies cycle through this list. Tool calls are only made when the session actually declared that tool.
+export const MOCK_SCRIPT: ScriptedExchange[] = [
+  {
+    user: "I go to the cinema yesterday with my friends.",
+    reply: "Oh nice, you went to the cinema yesterday? What did you see?",
+    toolCall: { name: 'reportCorrection', args: { original: 'I go to the cinema yesterday', corrected: 'I went to the cinema yesterday', category: 'grammar', explanation: 'Use the past tense for finished actions.' } },
+  },
+  {
+    user: "We watched a comedy, it was very funny.",
+    reply: "A comedy, love it. Was it one of those films that really cracks you up?",
+    toolCall: { name: 'teachPhrase', args: { phrase: 'crack someone up', meaning: 'to make someone laugh a lot', example: 'That scene really cracked me up.' } },
+  },
+  {
+    user: "Yes, I laughed a lot. Maybe I watch it again.",
+    reply: "Ha, maybe you'll watch it again! Would you recommend it to me?",
+  },
+  {
+    user: "Yes, I think you will like it.",
+    reply: "Great, I'll check it out this weekend. Anything else fun planned?",
+  },
+];
+
+const OUTPUT_RATE = 24000;
+const INPUT_RATE = 16000;
+const WORDS_PER_SECOND = 2.5;
+const FRAGMENT_DELAY_MS = 120;
+// Open-mic turns are detected the crude way: this much voiced audio followed by this much quiet.
+const VOICED_RMS = 500; // int16 scale
+const MIN_SPEECH_MS = 400;
+const END_SILENCE_MS = 900;
+
+// A quiet, syllable-like tone so the visualizer and playback pipeline have something real to work on.
+export function fakeSpeechPcm(text: string): string {
+  const seconds = Math.max(1, text.split(/\s+/).length / WORDS_PER_SECOND);
+  const pcm = new Int16Array(Math.round(seconds * OUTPUT_RATE));
+  for (let i = 0; i < pcm.length; i++) {
+    const t = i / OUTPUT_RATE;
+    const syllable = Math.max(0, Math.sin(Math.PI * 4 * t));
+    pcm[i] = Math.round(2000 * syllable * Math.sin(2 * Math.PI * 180 * t));
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+const chunkRms = (chunk: Blob) => {
+  const bytes = decode(chunk.data ?? '');
+  const pcm = new Int16Array(bytes.buffer, 0, bytes.byteLength >> 1);
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+  return { rms: pcm.length ? Math.sqrt(sum / pcm.length) : 0, ms: (pcm.length / INPUT_RATE) * 1000 };
+};
+
+const message = (content: object) => content as LiveServerMessage;
+
+// Offline stand-in for GeminiService: a scripted conversation with fake audio, deterministic tool calls and fixed
+// reports. Select it with LLM_PROVIDER=mock for demos and automated tests. Tool responses and typed turns are
+// kept in `received` so tests can assert on them.
+export class MockProvider implements LlmProvider {
+  readonly received: { toolResponses: any[]; texts: string[]; contextNotes: string[] } = { toolResponses: [], texts: [], contextNotes: [] };
+  private config: LiveSessionConfig | null = null;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private speech: ReturnType<typeof setTimeout>[] = []; // Fragments of the reply still to be "generated"
+  private exchange = 0;
+  private callCount = 0;
+  private voicedMs = 0;
+  private silentMs = 0;
+
+  async connectLive(config: LiveSessionConfig) {
+    this.config = config;
+    this.voicedMs = 0;
+    this.silentMs = 0;
+    this.later(50, () => {
+      config.onOpen();
+      if (!config.conversationContext) this.speak(GREETING);
+    });
+    return this;
+  }
+
+  sendAudio(data: Blob) {
+    if (!this.config) return;
+    const { rms, ms } = chunkRms(data);
+    if (rms > VOICED_RMS) {
+      this.voicedMs += ms;
+      this.silentMs = 0;
+      if (this.voicedMs >= MIN_SPEECH_MS && this.config.allowInterruptions !== false) this.bargeIn();
+    } else if (this.voicedMs > 0) {
+      this.silentMs += ms;
+      if (this.silentMs >= END_SILENCE_MS) this.sendAudioStreamEnd();
+    }
+  }
+
+  // The end of a spoken turn: "transcribe" it with the scripted line and answer.
+  sendAudioStreamEnd() {
+    if (!this.config || this.voicedMs < MIN_SPEECH_MS) return;
+    this.voicedMs = 0;
+    this.silentMs = 0;
+    const exchange = this.nextExchange();
+    this.emit({ serverContent: { inputTranscription: { text: exchange.user } } });
+    this.respond(exchange);
+  }
+
+  sendText(text: string) {
+    if (!this.config) return;
+    this.received.texts.push(text);
+    this.respond(this.nextExchange());
+  }
+
+  sendContextNote(text: string) {
+    this.received.contextNotes.push(text);
+  }
+
+  async sendToolResponse(toolResponse: any) {
+    this.received.toolResponses.push(toolResponse);
+  }
+
+  async disconnect() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    const config = this.config;
+    this.config = null;
+    if (config) setTimeout(() => config.onClose(), 0);
+  }
+
+  async searchGrounding(query: string): Promise<SearchResult> {
+    return {
+      summary: `People are talking about ${query}: a few headlines, some strong opinions and plenty to chat about.`,
+      links: [{ title: `${query} - overview`, uri: 'https://example.com/mock-search' }],
+    };
+  }
+
+  async analyzeImage(): Promise<string | undefined> {
+    return "A sunny street café with people chatting at small tables.";
+  }
+
+  async synthesizeSpeech(text: string): Promise<string | null> {
+    return fakeSpeechPcm(text);
+  }
+
+  // Fixed scores, with evidence quoted from the first user line so it survives evidence verification.
+  async generateReport(transcript: string, mission?: MissionContext | null): Promise<any> {
+    const firstUserLine = transcript.split('\n').find(line => line.startsWith('User:'))?.slice(5).trim();
+    if (!firstUserLine) return null;
+    const quote = firstUserLine.replace(/ \[(typed|interrupted)\]$/, '');
+    return {
+      total: 68,
+      fluency: 70, vocabulary: 65, grammar: 60, pronunciation: 72, coherence: 70, interaction: 71,
+      nativeLike: 62,
+      cefrLevel: 'B1',
+      strengths: ['Keeps the conversation going', 'Asks follow-up questions'],
+      weaknesses: ['Past tense slips', 'Limited range of linking words'],
+      evidence: [{ criterion: 'grammar', quote, note: 'Mock evidence from the first user turn.' }],
+      comment: 'Mock report: solid everyday English with a few tense mistakes.',
+      ...(mission ? { mission: { success: mission.progress.completedObjectiveIds.length === mission.mission.objectives.length, score: 75, comment: 'Mock mission grade.' } } : {}),
+    };
+  }
+
+  async generateGlobalReport(sessions: SavedSession[]): Promise<any> {
+    if (sessions.length === 0) return null;
+    return { total: 66, fluency: 68, vocabulary: 64, nativeLike: 60, comment: `Mock progress summary across ${sessions.length} sessions.` };
+  }
+
+  // Like the live API, only a reply that is still being generated can be cut off.
+  private bargeIn() {
+    const pending = this.speech.filter(t => this.timers.includes(t));
+    this.speech = [];
+    if (pending.length === 0) return;
+    pending.forEach(clearTimeout);
+    this.timers = this.timers.filter(t => !pending.includes(t));
+    this.emit({ serverContent: { interrupted: true } });
+  }
+
+  private nextExchange() {
+    const exchange = MOCK_SCRIPT[this.exchange % MOCK_SCRIPT.length];
+    this.exchange++;
+    return exchange;
+  }
+
+  private respond(exchange: ScriptedExchange) {
+    const toolCall = exchange.toolCall;
+    const declared = toolCall && this.config?.tools?.some(t => t.name === toolCall.name);
+    if (toolCall && declared) {
+      this.later(150, () => this.emit({ toolCall: { functionCalls: [{ id: `mock-call-${++this.callCount}`, name: toolCall.name, args: toolCall.args }] } }));
+    }
+    this.later(300, () => this.speak(exchange.reply));
+  }
+
+  // Streams a reply the way the live API does: transcription fragments with audio alongside, then turnComplete.
+  private speak(text: string) {
+    const words = text.split(' ');
+    this.speech = words.map((word, i) => this.later(i * FRAGMENT_DELAY_MS, () => {
+      const fragment = i === 0 ? word : ` ${word}`;
+      if (this.config?.textReplies) {
+        this.emit({ serverContent: { modelTurn: { parts: [{ text: fragment }] } } });
+      } else {
+        this.emit({ serverContent: { outputTranscription: { text: fragment } } });
+        if (i === 0) this.emit({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_RATE}`, data: fakeSpeechPcm(text) } }] } } });
+      }
+    }));
+    this.speech.push(this.later(words.length * FRAGMENT_DELAY_MS, () => this.emit({ serverContent: { turnComplete: true } })));
+  }
+
+  private emit(content: object) {
+    this.config?.onMessage(message(content));
+  }
+
+  private later(ms: number, fn: () => void) {
+    const timer = setTimeout(() => {
+      this.timers = this.timers.filter(t => t !== timer);
+      fn();
+    }, ms);
+    this.timers.push(timer);
+    return timer;
+  }
+}
@@ -0,0 +1,124 @@
+export interface MixerSettings {
+  master: number; // 0–1, applies to everything
+  voice: number; // 0–1, the partner's voice
+  ambient: number; // 0–1, the scene's background sound
+  playbackRate: number; // Partner speech speed; below 1 for beginners
+}
+
+export const PLAYBACK_RATE_RANGE = { min: 0.7, max: 1.2, step: 0.05 };
+
+const DEFAULT_SETTINGS: MixerSettings = { master: 1, voice: 1, ambient: 0.2, playbackRate: 1 };
+const SETTINGS_KEY = 'deepsink_mixer_settings';
+
+// While either side is talking the background drops to this share of its level: quickly down, slowly back up.
+const DUCK_LEVEL = 0.35;
+const DUCK_ATTACK_MS = 150;
+const DUCK_RELEASE_MS = 800;
+const DUCK_STEP_MS = 30;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Volume and speed settings for everything the app plays during a session. The partner's voice runs through a
+// voice gain and a master gain on the session's output context; ambient sources register a level setter and
+// are told the ambient × master level, ducked while anyone speaks.
+export class OutputMixer {
+  private settings: MixerSettings;
+  private voiceGain: GainNode | null = null;
+  private masterGain: GainNode | null = null;
+  private ambientOutputs = new Set<(level: number) => void>();
+  private duck = 1;
+  private duckTarget = 1;
+  private duckTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    let saved: Partial<MixerSettings> = {};
+    try { saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'); } catch (e) {}
+    this.settings = {
+      master: clamp(saved.master, 0, 1, DEFAULT_SETTINGS.master),
+      voice: clamp(saved.voice, 0, 1, DEFAULT_SETTINGS.voice),
+      ambient: clamp(saved.ambient, 0, 1, DEFAULT_SETTINGS.ambient),
+      playbackRate: clamp(saved.playbackRate, PLAYBACK_RATE_RANGE.min, PLAYBACK_RATE_RANGE.max, DEFAULT_SETTINGS.playbackRate),
+    };
+  }
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore.
+  getSettings = (): MixerSettings => this.settings;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  // Builds voice gain → (analyser) → master gain → speakers on `ctx` and returns the node clips should play into.
+  attach(ctx: AudioContext, analyser?: AnalyserNode): AudioNode {
+    this.voiceGain = ctx.createGain();
+    this.masterGain = ctx.createGain();
+    this.voiceGain.gain.value = this.settings.voice;
+    this.masterGain.gain.value = this.settings.master;
+    if (analyser) {
+      this.voiceGain.connect(analyser);
+      analyser.connect(this.masterGain);
+    } else {
+      this.voiceGain.connect(this.masterGain);
+    }
+    this.masterGain.connect(ctx.destination);
+    return this.voiceGain;
+  }
+
+  detach() {
+    this.voiceGain = null;
+    this.masterGain = null;
+  }
+
+  // Registers an ambient source and immediately tells it the current level. Returns an unregister function.
+  addAmbientOutput(setLevel: (level: number) => void) {
+    this.ambientOutputs.add(setLevel);
+    setLevel(this.ambientLevel());
+    return () => { this.ambientOutputs.delete(setLevel); };
+  }
+
+  update(changes: Partial<MixerSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    try { localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings)); } catch (e) {}
+    this.ramp(this.voiceGain, this.settings.voice);
+    this.ramp(this.masterGain, this.settings.master);
+    this.pushAmbientLevel();
+    this.listeners.forEach(listener => listener());
+  }
+
+  setDucked(ducked: boolean) {
+    const target = ducked ? DUCK_LEVEL : 1;
+    if (target === this.duckTarget) return;
+    this.duckTarget = target;
+    if (this.duckTimer) clearInterval(this.duckTimer);
+    // Ambient outputs may live on another audio context, so the fade is stepped here and each output just follows the level.
+    const step = (1 - DUCK_LEVEL) * DUCK_STEP_MS / (ducked ? DUCK_ATTACK_MS : DUCK_RELEASE_MS);
+    this.duckTimer = setInterval(() => {
+      this.duck = ducked ? Math.max(target, this.duck - step) : Math.min(target, this.duck + step);
+      this.pushAmbientLevel();
+      if (this.duck === target && this.duckTimer) {
+        clearInterval(this.duckTimer);
+        this.duckTimer = null;
+      }
+    }, DUCK_STEP_MS);
+  }
+
+  private ambientLevel() {
+    return this.settings.ambient * this.settings.master * this.duck;
+  }
+
+  private pushAmbientLevel() {
+    const level = this.ambientLevel();
+    this.ambientOutputs.forEach(setLevel => setLevel(level));
+  }
+
+  // A short ramp so dragging a slider doesn't zipper.
+  private ramp(node: GainNode | null, value: number) {
+    if (!node) return;
+    node.gain.setTargetAtTime(value, node.context.currentTime, 0.02);
+  }
+}
+
+export const outputMixer = new OutputMixer();
@@ -0,0 +1,115 @@
+import catalogJson from '../data/personas.json';
+import { DEFAULT_PERSONA_ID, VOICE_NAMES } from '../constants';
+import { Persona, SpeakingSpeed, SlangLevel, CorrectionStyle } from '../types';
+
+const CUSTOM_STORAGE_KEY = 'deepsink_custom_personas';
+const UNKNOWN_PERSONA_NAME = 'Unknown partner';
+
+const SPEAKING_SPEEDS: SpeakingSpeed[] = ['slow', 'natural', 'fast'];
+const SLANG_LEVELS: SlangLevel[] = ['none', 'light', 'heavy'];
+const CORRECTION_STYLES: CorrectionStyle[] = ['gentle', 'shadowing', 'strict'];
+
+export type PersonaDraft = Omit<Persona, 'id' | 'isCustom'> & { id?: string };
+
+const oneOf = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+// Validates one catalog entry (see data/personas.schema.json). Optional style fields fall back to neutral defaults.
+export function parsePersona(raw: any, isCustom = false): Persona | null {
+  if (!raw || typeof raw !== 'object') return null;
+  if (typeof raw.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(raw.id)) return null;
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  return {
+    id: raw.id,
+    name: raw.name.trim(),
+    role: typeof raw.role === 'string' ? raw.role : '',
+    description: typeof raw.description === 'string' ? raw.description : '',
+    voiceName: oneOf(raw.voiceName, VOICE_NAMES, VOICE_NAMES[0]),
+    avatarUrl: typeof raw.avatarUrl === 'string' ? raw.avatarUrl : '',
+    speakingSpeed: oneOf(raw.speakingSpeed, SPEAKING_SPEEDS, 'natural'),
+    slangLevel: oneOf(raw.slangLevel, SLANG_LEVELS, 'light'),
+    correctionStyle: oneOf(raw.correctionStyle, CORRECTION_STYLES, 'shadowing'),
+    openingLine: typeof raw.openingLine === 'string' ? raw.openingLine : '',
+    ...(isCustom ? { isCustom: true } : {}),
+  };
+}
+
+function parseCatalog(raw: any, isCustom = false): Persona[] {
+  const entries = Array.isArray(raw?.personas) ? raw.personas : [];
+  return entries.map((p: unknown) => parsePersona(p, isCustom)).filter((p: Persona | null): p is Persona => !!p);
+}
+
+// Built-in personas from the bundled JSON catalog plus the user's custom personas from localStorage.
+export class PersonaCatalog {
+  private builtIn: Persona[];
+  private custom: Persona[];
+  private all: Persona[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.builtIn = parseCatalog(catalogJson);
+    this.custom = this.loadCustom();
+    this.rebuild();
+  }
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore.
+  getAll = (): Persona[] => this.all;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  get(id: string): Persona | undefined {
+    return this.all.find(p => p.id === id);
+  }
+
+  // Like get(), but falls back to the default persona, e.g. when the selected custom persona has since been deleted.
+  resolve(id: string): Persona {
+    return this.get(id) ?? this.get(DEFAULT_PERSONA_ID) ?? this.all[0];
+  }
+
+  // Who a recorded turn or session was with. A since-deleted custom persona isn't passed off as the default one.
+  nameOf(id: string): string {
+    return this.get(id)?.name ?? UNKNOWN_PERSONA_NAME;
+  }
+
+  saveCustom(draft: PersonaDraft): Persona {
+    const id = draft.id && this.custom.some(p => p.id === draft.id)
+      ? draft.id
+      : `custom-${Date.now().toString(36)}`;
+    const persona = parsePersona({ ...draft, id }, true);
+    if (!persona) throw new Error("Persona needs a name.");
+    const index = this.custom.findIndex(p => p.id === id);
+    this.custom = index >= 0
+      ? this.custom.map(p => p.id === id ? persona : p)
+      : [...this.custom, persona];
+    this.persist();
+    return persona;
+  }
+
+  deleteCustom(id: string) {
+    this.custom = this.custom.filter(p => p.id !== id);
+    this.persist();
+  }
+
+  private loadCustom(): Persona[] {
+    try {
+      return parseCatalog(JSON.parse(localStorage.getItem(CUSTOM_STORAGE_KEY) || '{}'), true);
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private persist() {
+    localStorage.setItem(CUSTOM_STORAGE_KEY, JSON.stringify({ version: 1, personas: this.custom }));
+    this.rebuild();
+  }
+
+  private rebuild() {
+    this.all = [...this.builtIn, ...this.custom];
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const personaCatalog = new PersonaCatalog();
@@ -0,0 +1,34 @@
+import { ProgressReport } from '../types';
+import { normalizeScore } from './sessionRepository';
+
+const STORAGE_KEY = 'deepsink_progress_report';
+
+export function loadCachedReport(): ProgressReport | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    const score = normalizeScore(parsed?.score);
+    if (!score || typeof parsed.latestSessionId !== 'string') return null;
+    return { ...parsed, score };
+  } catch (e) {
+    return null;
+  }
+}
+
+export function cacheReport(report: ProgressReport) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(report));
+  } catch (e) {
+    console.error("Failed to cache progress report:", e);
+  }
+}
+
+export function clearCachedReport() {
+  try { localStorage.removeItem(STORAGE_KEY); } catch (e) {}
+}
+
+// A cached report stays valid until a newer session is saved or sessions are deleted.
+export function isReportCurrent(report: ProgressReport, latestSessionId: string | undefined, sessionCount: number) {
+  return report.latestSessionId === latestSessionId && report.sessionCount === sessionCount;
+}
@@ -0,0 +1,67 @@
+import { openDatabase, promisify, transactionDone, RECORDINGS_STORE } from './db';
+import { VoiceClip } from './voiceRecorder';
+
+interface StoredRecording {
+  id: string;
+  sessionId: string;
+  audio: Blob;
+  durationMs: number;
+}
+
+// Recorded user turns, kept apart from session records so listing history never loads audio.
+// Clips from the session in progress are held in memory until `persist` writes them under the saved session's ID.
+export class RecordingStore {
+  private pending = new Map<string, VoiceClip>();
+
+  keep(clip: VoiceClip) {
+    this.pending.set(clip.id, clip);
+  }
+
+  discardPending() {
+    this.pending.clear();
+  }
+
+  async get(id: string): Promise<Blob | null> {
+    const pending = this.pending.get(id);
+    if (pending) return pending.audio;
+    const db = await openDatabase();
+    const record: StoredRecording | undefined = await promisify(db.transaction(RECORDINGS_STORE, 'readonly').objectStore(RECORDINGS_STORE).get(id));
+    return record?.audio ?? null;
+  }
+
+  // Stores the pending clips that made it into the saved transcript and forgets the rest.
+  async persist(sessionId: string, clipIds: string[]) {
+    const clips = clipIds.map(id => this.pending.get(id)).filter((c): c is VoiceClip => !!c);
+    if (clips.length) {
+      const db = await openDatabase();
+      const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+      clips.forEach(clip => tx.objectStore(RECORDINGS_STORE).put({ id: clip.id, sessionId, audio: clip.audio, durationMs: clip.durationMs } satisfies StoredRecording));
+      await transactionDone(tx);
+    }
+    this.discardPending();
+  }
+
+  async deleteForSessions(sessionIds: string[]) {
+    if (sessionIds.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+    const index = tx.objectStore(RECORDINGS_STORE).index('sessionId');
+    sessionIds.forEach(sessionId => {
+      const request = index.openKeyCursor(IDBKeyRange.only(sessionId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        tx.objectStore(RECORDINGS_STORE).delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    });
+    await transactionDone(tx);
+  }
+
+  async clear() {
+    const db = await openDatabase();
+    await promisify(db.transaction(RECORDINGS_STORE, 'readwrite').objectStore(RECORDINGS_STORE).clear());
+  }
+}
+
+export const recordingStore = new RecordingStore();
@@ -0,0 +1,115 @@
+import { openDatabase, promisify, transactionDone, REVIEW_STORE } from './db';
+import { ReviewCard, ReviewCardKind, SavedSession } from '../types';
+import { initialSm2, scheduleSm2, ReviewQuality } from '../utils/sm2';
+
+export interface DueCounts {
+  mistake: number;
+  vocabulary: number;
+  total: number;
+}
+
+const cardId = (kind: ReviewCardKind, prompt: string) =>
+  `${kind}:${prompt.toLowerCase().replace(/[^a-z0-9' ]+/g, ' ').replace(/\s+/g, ' ').trim()}`;
+
+// Every card a session can contribute: its corrections become mistake cards, taught phrases become vocabulary cards.
+export function cardsFromSession(session: SavedSession): ReviewCard[] {
+  const createdAt = Date.parse(session.date) || Date.now();
+  const card = (kind: ReviewCardKind, prompt: string, answer: string, note: string): ReviewCard => ({
+    id: cardId(kind, prompt),
+    kind,
+    prompt,
+    answer,
+    note,
+    sourceSessionId: session.id,
+    createdAt,
+    ...initialSm2(createdAt),
+  });
+  const mistakes = session.messages.flatMap(m => m.corrections ?? [])
+    .map(c => card('mistake', c.original, c.corrected, c.explanation));
+  const vocabulary = (session.vocabulary ?? [])
+    .map(v => card('vocabulary', v.phrase, v.meaning, v.example));
+  return [...mistakes, ...vocabulary];
+}
+
+export function countDue(cards: ReviewCard[], now = Date.now()): DueCounts {
+  const due = cards.filter(c => c.dueAt <= now);
+  const mistake = due.filter(c => c.kind === 'mistake').length;
+  return { mistake, vocabulary: due.length - mistake, total: due.length };
+}
+
+// Spaced-repetition deck persisted in IndexedDB. Cards are collected from saved sessions and never duplicated,
+// so re-syncing the same history leaves existing schedules untouched.
+export class ReviewDeck {
+  private cards: ReviewCard[] = [];
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const db = await openDatabase();
+        this.cards = await promisify(db.transaction(REVIEW_STORE, 'readonly').objectStore(REVIEW_STORE).getAll());
+        this.emit();
+      })();
+      this.loading.catch(e => {
+        console.error("Failed to load review deck:", e);
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore.
+  getCards = (): ReviewCard[] => this.cards;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  // Oldest-due first, so cards that have waited longest are reviewed before fresh ones.
+  getDue(limit = Infinity, now = Date.now()): ReviewCard[] {
+    return this.cards.filter(c => c.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt).slice(0, limit);
+  }
+
+  // Adds cards for any corrections or phrases not yet in the deck. Returns how many were added.
+  async syncFromSessions(sessions: SavedSession[]): Promise<number> {
+    await this.load();
+    const known = new Set(this.cards.map(c => c.id));
+    const added: ReviewCard[] = [];
+    sessions.flatMap(cardsFromSession).forEach(card => {
+      if (known.has(card.id)) return;
+      known.add(card.id);
+      added.push(card);
+    });
+    if (added.length === 0) return 0;
+
+    const db = await openDatabase();
+    const tx = db.transaction(REVIEW_STORE, 'readwrite');
+    added.forEach(card => tx.objectStore(REVIEW_STORE).put(card));
+    await transactionDone(tx);
+    this.cards = [...this.cards, ...added];
+    this.emit();
+    return added.length;
+  }
+
+  async grade(id: string, quality: ReviewQuality): Promise<ReviewCard | null> {
+    const card = this.cards.find(c => c.id === id);
+    if (!card) return null;
+    const now = Date.now();
+    const updated: ReviewCard = { ...card, ...scheduleSm2(card, quality, now), lastReviewedAt: now };
+    const db = await openDatabase();
+    const tx = db.transaction(REVIEW_STORE, 'readwrite');
+    tx.objectStore(REVIEW_STORE).put(updated);
+    await transactionDone(tx);
+    this.cards = this.cards.map(c => c.id === id ? updated : c);
+    this.emit();
+    return updated;
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const reviewDeck = new ReviewDeck();
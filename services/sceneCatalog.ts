@@ -0,0 +1,204 @@
+import catalogJson from '../data/scenes.json';
+import { DEFAULT_SCENE_ID, SHADERS } from '../constants';
+import { openDatabase, promisify, SCENES_STORE } from './db';
+import { AmbienceMix, Scene, SceneBrief } from '../types';
+import { AMBIENCE_LAYERS } from '../utils/ambienceSynth';
+
+// What the editor hands over: uploaded files travel as Blobs and take precedence over the matching URL fields.
+export type SceneDraft = Omit<Scene, 'id' | 'isCustom'> & {
+  id?: string;
+  imageFile?: Blob | null;
+  ambientFile?: Blob | null;
+};
+
+// Shape of a custom scene in IndexedDB. Blobs are kept as-is and turned into object URLs on load.
+interface StoredScene extends Omit<Scene, 'isCustom'> {
+  imageBlob?: Blob;
+  ambientBlob?: Blob;
+}
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).map(v => v.trim()) : [];
+
+function parseBrief(raw: any): SceneBrief {
+  return {
+    setting: typeof raw?.setting === 'string' ? raw.setting.trim() : '',
+    goals: stringList(raw?.goals),
+    vocabulary: stringList(raw?.vocabulary),
+  };
+}
+
+// Keeps known layers with a usable volume; undefined if none are left.
+function parseAmbience(raw: any): AmbienceMix | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const mix: AmbienceMix = {};
+  AMBIENCE_LAYERS.forEach(layer => {
+    const volume = raw[layer];
+    if (typeof volume === 'number' && volume > 0) mix[layer] = Math.min(1, volume);
+  });
+  return Object.keys(mix).length ? mix : undefined;
+}
+
+// Validates one catalog entry (see data/scenes.schema.json). Shader scenes may reference a bundled shader by key.
+export function parseScene(raw: any, isCustom = false): Scene | null {
+  if (!raw || typeof raw !== 'object') return null;
+  if (typeof raw.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(raw.id)) return null;
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  const ambientSoundUrl = typeof raw.ambientSoundUrl === 'string' && raw.ambientSoundUrl ? raw.ambientSoundUrl : undefined;
+  const ambience = parseAmbience(raw.ambience);
+  const base = { id: raw.id, name: raw.name.trim(), ambientSoundUrl, ...(ambience ? { ambience } : {}), brief: parseBrief(raw.brief), ...(isCustom ? { isCustom: true } : {}) };
+
+  if (raw.type === 'shader') {
+    const shaderCode = typeof raw.shaderCode === 'string' && raw.shaderCode.trim() ? raw.shaderCode : SHADERS[raw.shader];
+    return shaderCode ? { ...base, type: 'shader', shaderCode } : null;
+  }
+  if (raw.type === 'image' && typeof raw.imageUrl === 'string' && raw.imageUrl) {
+    return { ...base, type: 'image', imageUrl: raw.imageUrl };
+  }
+  return null;
+}
+
+function parseCatalog(raw: any): Scene[] {
+  const entries = Array.isArray(raw?.scenes) ? raw.scenes : [];
+  return entries.map((s: unknown) => parseScene(s)).filter((s: Scene | null): s is Scene => !!s);
+}
+
+// Built-in scenes from the bundled JSON catalog plus the user's custom scenes from IndexedDB.
+export class SceneCatalog {
+  private builtIn: Scene[];
+  private custom: Scene[] = [];
+  private stored = new Map<string, StoredScene>();
+  private objectUrls = new Map<string, string[]>();
+  private loading: Promise<void> | null = null;
+  private all: Scene[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.builtIn = parseCatalog(catalogJson);
+    this.rebuild();
+  }
+
+  // Custom scenes live in IndexedDB, so they arrive asynchronously; until then only built-ins are listed.
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadCustom().catch(e => {
+        console.error("Failed to load custom scenes:", e);
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore.
+  getAll = (): Scene[] => this.all;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  get(id: string): Scene | undefined {
+    return this.all.find(s => s.id === id);
+  }
+
+  // Like get(), but falls back to the default scene, e.g. for sessions recorded in a since-deleted custom scene.
+  resolve(id: string): Scene {
+    return this.get(id) ?? this.get(DEFAULT_SCENE_ID) ?? this.all[0];
+  }
+
+  async saveCustom(draft: SceneDraft): Promise<Scene> {
+    const previous = draft.id ? this.stored.get(draft.id) : undefined;
+    const id = previous ? previous.id : `custom-${Date.now().toString(36)}`;
+    const record: StoredScene = {
+      id,
+      name: draft.name.trim(),
+      type: draft.type,
+      ambience: parseAmbience(draft.ambience),
+      brief: parseBrief(draft.brief),
+    };
+
+    if (draft.type === 'shader') {
+      record.shaderCode = draft.shaderCode;
+    } else if (draft.imageFile) {
+      record.imageBlob = draft.imageFile;
+    } else if (previous?.imageBlob && draft.imageUrl === this.get(id)?.imageUrl) {
+      record.imageBlob = previous.imageBlob; // Untouched upload
+    } else {
+      record.imageUrl = draft.imageUrl;
+    }
+
+    if (draft.ambientFile) {
+      record.ambientBlob = draft.ambientFile;
+    } else if (previous?.ambientBlob && draft.ambientSoundUrl === this.get(id)?.ambientSoundUrl) {
+      record.ambientBlob = previous.ambientBlob;
+    } else if (draft.ambientSoundUrl) {
+      record.ambientSoundUrl = draft.ambientSoundUrl;
+    }
+
+    // Validate before writing; object URLs are only minted once the record is safely stored.
+    if (!parseScene({ ...record, imageUrl: record.imageBlob ? 'blob:' : record.imageUrl }, true)) {
+      throw new Error(draft.type === 'shader' ? "Scene needs a name and shader code." : "Scene needs a name and an image.");
+    }
+
+    const db = await openDatabase();
+    await promisify(db.transaction(SCENES_STORE, 'readwrite').objectStore(SCENES_STORE).put(record));
+    const scene = this.toScene(record)!;
+    this.stored.set(id, record);
+    this.custom = previous ? this.custom.map(s => s.id === id ? scene : s) : [...this.custom, scene];
+    this.rebuild();
+    return scene;
+  }
+
+  async deleteCustom(id: string) {
+    const db = await openDatabase();
+    await promisify(db.transaction(SCENES_STORE, 'readwrite').objectStore(SCENES_STORE).delete(id));
+    this.revokeUrls(id);
+    this.stored.delete(id);
+    this.custom = this.custom.filter(s => s.id !== id);
+    this.rebuild();
+  }
+
+  private async loadCustom() {
+    const db = await openDatabase();
+    const records: StoredScene[] = await promisify(db.transaction(SCENES_STORE, 'readonly').objectStore(SCENES_STORE).getAll());
+    this.custom = [];
+    records.forEach(record => {
+      const scene = this.toScene(record);
+      if (!scene) return;
+      this.stored.set(record.id, record);
+      this.custom.push(scene);
+    });
+    this.rebuild();
+  }
+
+  // Resolves stored blobs to object URLs, releasing any URLs minted for an earlier version of the same scene.
+  private toScene(record: StoredScene): Scene | null {
+    this.revokeUrls(record.id);
+    const urls: string[] = [];
+    const toUrl = (blob: Blob) => {
+      const url = URL.createObjectURL(blob);
+      urls.push(url);
+      return url;
+    };
+    const scene = parseScene({
+      ...record,
+      imageUrl: record.imageBlob ? toUrl(record.imageBlob) : record.imageUrl,
+      ambientSoundUrl: record.ambientBlob ? toUrl(record.ambientBlob) : record.ambientSoundUrl,
+    }, true);
+    if (scene) this.objectUrls.set(record.id, urls);
+    else urls.forEach(url => URL.revokeObjectURL(url));
+    return scene;
+  }
+
+  private revokeUrls(id: string) {
+    this.objectUrls.get(id)?.forEach(url => URL.revokeObjectURL(url));
+    this.objectUrls.delete(id);
+  }
+
+  private rebuild() {
+    this.all = [...this.builtIn, ...this.custom];
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const sceneCatalog = new SceneCatalog();
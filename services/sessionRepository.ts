@@ -0,0 +1,320 @@
+import { DEFAULT_PERSONA_ID, DEFAULT_SCENE_ID } from '../constants';
+import { openDatabase, promisify, transactionDone, SESSIONS_STORE } from './db';
+import { recordingStore } from './recordingStore';
+import { SavedSession, ScoreData, ScoreEvidence, RubricCriterion, ChatMessage, Correction, MissionGrade, MissionProgress, VocabularyItem, SpeakingMetrics } from '../types';
+import { parseCorrection } from '../utils/corrections';
+import { RUBRIC_CRITERIA, CEFR_LEVELS, rubricTotal } from '../utils/scoring';
+
+const LEGACY_STORAGE_KEY = 'deepsink_history';
+
+// Quota policy: warn once usage passes WARN_RATIO, prune the oldest sessions once it passes PRUNE_RATIO
+// (or a write fails with QuotaExceededError), but never prune below MIN_KEPT_SESSIONS.
+const WARN_RATIO = 0.8;
+const PRUNE_RATIO = 0.9;
+const PRUNE_FRACTION = 0.25;
+const MIN_KEPT_SESSIONS = 10;
+
+// Bump this whenever the shape of SavedSession changes and teach migrateSession how to upgrade.
+// v2: messages carry personaId, sceneId, startedAt and interrupted.
+export const SESSION_SCHEMA_VERSION = 2;
+
+export type NewSession = Omit<SavedSession, 'id' | 'version' | 'date'>;
+
+export interface SessionPage {
+  sessions: SavedSession[];
+  total: number;
+}
+
+export interface StorageStatus {
+  usage: number;
+  quota: number;
+  nearLimit: boolean;
+}
+
+export interface SaveResult {
+  session: SavedSession;
+  pruned: number;
+  storage: StorageStatus | null;
+}
+
+const toNumber = (value: unknown): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const stringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+// Accepts both the original five-field report and the detailed rubric. Rubric fields are only filled in when the
+// report actually has them, so older sessions don't show made-up zeros.
+export function normalizeScore(raw: any): ScoreData | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const score: ScoreData = {
+    total: toNumber(raw.total),
+    fluency: toNumber(raw.fluency),
+    vocabulary: toNumber(raw.vocabulary),
+    nativeLike: toNumber(raw.nativeLike),
+    comment: typeof raw.comment === 'string' ? raw.comment : '',
+    mission: normalizeMissionGrade(raw.mission),
+  };
+  if (!RUBRIC_CRITERIA.every(c => raw[c] !== undefined && raw[c] !== null)) return score;
+
+  const subScores = Object.fromEntries(RUBRIC_CRITERIA.map(c => [c, Math.max(0, Math.min(100, toNumber(raw[c])))])) as Record<RubricCriterion, number>;
+  return {
+    ...score,
+    ...subScores,
+    total: rubricTotal(subScores),
+    cefrLevel: CEFR_LEVELS.includes(raw.cefrLevel) ? raw.cefrLevel : null,
+    strengths: stringArray(raw.strengths),
+    weaknesses: stringArray(raw.weaknesses),
+    evidence: (Array.isArray(raw.evidence) ? raw.evidence : [])
+      .filter((e: any) => e && RUBRIC_CRITERIA.includes(e.criterion) && typeof e.quote === 'string' && e.quote.trim())
+      .map((e: any): ScoreEvidence => ({ criterion: e.criterion, quote: e.quote.trim(), note: typeof e.note === 'string' ? e.note : '' })),
+  };
+}
+
+function normalizeMissionGrade(raw: any): MissionGrade | null {
+  if (!raw || typeof raw !== 'object') return null;
+  return {
+    success: raw.success === true,
+    score: toNumber(raw.score),
+    comment: typeof raw.comment === 'string' ? raw.comment : '',
+  };
+}
+
+function normalizeMissionProgress(raw: any): MissionProgress | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.missionId !== 'string') return null;
+  return {
+    missionId: raw.missionId,
+    completedObjectiveIds: stringArray(raw.completedObjectiveIds),
+    usedPhrases: stringArray(raw.usedPhrases),
+    outcome: typeof raw.outcome === 'string' ? raw.outcome : null,
+  };
+}
+
+export function normalizeVocabularyItem(raw: any): VocabularyItem | null {
+  if (!raw || typeof raw.phrase !== 'string' || !raw.phrase.trim()) return null;
+  return {
+    phrase: raw.phrase.trim(),
+    meaning: typeof raw.meaning === 'string' ? raw.meaning.trim() : '',
+    example: typeof raw.example === 'string' ? raw.example.trim() : '',
+  };
+}
+
+function normalizeMetrics(raw: any): SpeakingMetrics | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const fillers: Record<string, number> = {};
+  if (raw.fillers && typeof raw.fillers === 'object') {
+    Object.entries(raw.fillers).forEach(([filler, count]) => { if (toNumber(count) > 0) fillers[filler] = toNumber(count); });
+  }
+  return {
+    durationMs: toNumber(raw.durationMs),
+    userTalkMs: toNumber(raw.userTalkMs),
+    aiTalkMs: toNumber(raw.aiTalkMs),
+    userWords: toNumber(raw.userWords),
+    wordsPerMinute: toNumber(raw.wordsPerMinute),
+    avgPauseMs: toNumber(raw.avgPauseMs),
+    pauseCount: toNumber(raw.pauseCount),
+    longestSilenceMs: toNumber(raw.longestSilenceMs),
+    avgTurnLatencyMs: toNumber(raw.avgTurnLatencyMs),
+    fillers,
+    fillerCount: Object.values(fillers).reduce((a, b) => a + b, 0),
+  };
+}
+
+// Messages from before v2 take the session's persona and scene, and have no known start time.
+function normalizeMessages(raw: any, personaId: string, sceneId: string): ChatMessage[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(m => m && typeof m.text === 'string')
+    .map(m => ({
+      role: m.role === 'user' ? 'user' : 'model',
+      text: m.text,
+      personaId: typeof m.personaId === 'string' && m.personaId ? m.personaId : personaId,
+      sceneId: typeof m.sceneId === 'string' && m.sceneId ? m.sceneId : sceneId,
+      startedAt: toNumber(m.startedAt ?? m.timestamp),
+      timestamp: toNumber(m.timestamp),
+      ...(m.interrupted === true ? { interrupted: true } : {}),
+      ...(m.heard && Number.isFinite(m.heard.heardMs) && Number.isFinite(m.heard.receivedMs) ? { heard: { heardMs: m.heard.heardMs, receivedMs: m.heard.receivedMs } } : {}),
+      ...(m.typed === true ? { typed: true } : {}),
+      ...(typeof m.recordingId === 'string' ? { recordingId: m.recordingId } : {}),
+      ...(Array.isArray(m.corrections) && m.corrections.length ? { corrections: m.corrections.map(parseCorrection).filter((c: Correction | null): c is Correction => !!c) } : {}),
+    }));
+}
+
+// Upgrades a single record of any known version (including the unversioned legacy format) to the current schema.
+export function migrateSession(raw: any): SavedSession | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const date = typeof raw.date === 'string' && !isNaN(Date.parse(raw.date)) ? raw.date : new Date().toISOString();
+  const personaId = typeof raw.personaId === 'string' && raw.personaId ? raw.personaId : DEFAULT_PERSONA_ID;
+  const sceneId = typeof raw.sceneId === 'string' && raw.sceneId ? raw.sceneId : DEFAULT_SCENE_ID;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createSessionId(),
+    version: SESSION_SCHEMA_VERSION,
+    date,
+    personaId,
+    sceneId,
+    topic: typeof raw.topic === 'string' ? raw.topic : null,
+    imageContext: typeof raw.imageContext === 'string' ? raw.imageContext : null,
+    messages: normalizeMessages(raw.messages, personaId, sceneId),
+    mission: normalizeMissionProgress(raw.mission),
+    vocabulary: (Array.isArray(raw.vocabulary) ? raw.vocabulary : [])
+      .map(normalizeVocabularyItem)
+      .filter((v: VocabularyItem | null): v is VocabularyItem => !!v),
+    metrics: normalizeMetrics(raw.metrics),
+    score: normalizeScore(raw.score),
+  };
+}
+
+export function createSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const isQuotaError = (e: unknown) => e instanceof DOMException && e.name === 'QuotaExceededError';
+
+export class SessionRepository {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase().then(async db => {
+        await this.migrateLegacyStorage(db);
+        return db;
+      });
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(SESSIONS_STORE, mode).objectStore(SESSIONS_STORE);
+  }
+
+  // One-time import of the old `deepsink_history` localStorage blob. The key is only removed once every record is written.
+  private async migrateLegacyStorage(db: IDBDatabase) {
+    let raw: string | null = null;
+    try { raw = localStorage.getItem(LEGACY_STORAGE_KEY); } catch (e) { return; }
+    if (!raw) return;
+    try {
+      const sessions = this.migrate(JSON.parse(raw));
+      const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+      sessions.forEach(s => tx.objectStore(SESSIONS_STORE).put(s));
+      await transactionDone(tx);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch (e) {
+      console.error("Failed to migrate legacy session history:", e);
+    }
+  }
+
+  // Accepts either the legacy bare array or a versioned envelope and returns records in the current schema.
+  migrate(data: unknown): SavedSession[] {
+    const rawSessions = Array.isArray(data) ? data : (data as any)?.sessions;
+    return (Array.isArray(rawSessions) ? rawSessions : [])
+      .map(migrateSession)
+      .filter((s): s is SavedSession => !!s);
+  }
+
+  // Newest first, `limit` records starting at `offset`.
+  async list(offset = 0, limit = Infinity): Promise<SessionPage> {
+    const store = await this.store('readonly');
+    const total = await promisify(store.count());
+    const sessions: SavedSession[] = [];
+    if (limit <= 0 || offset >= total) return { sessions, total };
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index('date').openCursor(null, 'prev');
+      let skipped = offset === 0;
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        const session = cursor.value.version === SESSION_SCHEMA_VERSION ? cursor.value : migrateSession(cursor.value);
+        if (session) sessions.push(session);
+        if (sessions.length >= limit) return resolve();
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return { sessions, total };
+  }
+
+  async listAll(): Promise<SavedSession[]> {
+    return (await this.list()).sessions;
+  }
+
+  async save(session: NewSession): Promise<SaveResult> {
+    const record: SavedSession = {
+      ...session,
+      id: createSessionId(),
+      version: SESSION_SCHEMA_VERSION,
+      date: new Date().toISOString(),
+    };
+
+    let pruned = 0;
+    try {
+      await this.put(record);
+    } catch (e) {
+      if (!isQuotaError(e)) throw e;
+      pruned = await this.pruneOldest();
+      await this.put(record);
+    }
+
+    const storage = await this.getStorageStatus();
+    if (storage && storage.usage / storage.quota >= PRUNE_RATIO) pruned += await this.pruneOldest();
+    return { session: record, pruned, storage };
+  }
+
+  // Waits for the commit, not just the request: browsers report running out of quota as the transaction aborting.
+  private async put(record: SavedSession) {
+    const db = await this.open();
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(record);
+    await transactionDone(tx);
+  }
+
+  // Drops the oldest PRUNE_FRACTION of sessions, keeping at least MIN_KEPT_SESSIONS. Returns how many were removed.
+  async pruneOldest(): Promise<number> {
+    const { sessions, total } = await this.list();
+    const count = Math.min(Math.ceil(total * PRUNE_FRACTION), total - MIN_KEPT_SESSIONS);
+    if (count <= 0) return 0;
+    const removed = sessions.slice(-count).map(s => s.id);
+    const store = await this.store('readwrite');
+    await Promise.all(removed.map(id => promisify(store.delete(id))));
+    await recordingStore.deleteForSessions(removed);
+    return count;
+  }
+
+  async getStorageStatus(): Promise<StorageStatus | null> {
+    if (!navigator.storage?.estimate) return null;
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      if (!quota) return null;
+      return { usage, quota, nearLimit: usage / quota >= WARN_RATIO };
+    } catch (e) {
+      return null;
+    }
+  }
+
+  async update(session: SavedSession) {
+    await this.put(session);
+  }
+
+  async delete(id: string) {
+    const store = await this.store('readwrite');
+    await promisify(store.delete(id));
+    await recordingStore.deleteForSessions([id]);
+  }
+
+  async clear() {
+    const store = await this.store('readwrite');
+    await promisify(store.clear());
+    await recordingStore.clear();
+  }
+}
+
+export const sessionRepository = new SessionRepository();
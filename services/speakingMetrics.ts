@@ -0,0 +1,142 @@
+import { SpeakingMetrics } from '../types';
+
+// Voice activity flickers between syllables; a gap shorter than this still counts as the same stretch of speech.
+const HANGOVER_MS = 300;
+// Gaps inside the user's own speech (no AI reply in between) between these bounds count as pauses.
+const MIN_PAUSE_MS = 250;
+const MAX_PAUSE_MS = 5000;
+// Ignore response latencies beyond this; the user has probably stepped away rather than been thinking.
+const MAX_LATENCY_MS = 30000;
+// Below this much measured speech, words per minute is too noisy to report.
+const MIN_TALK_FOR_WPM_MS = 5000;
+
+const FILLER_PATTERNS: [string, RegExp][] = [
+  ['um', /\bu+m+\b/gi],
+  ['uh', /\bu+h+\b/gi],
+  ['er', /\be+r+m*\b/gi],
+  ['hmm', /\bh+m+\b/gi],
+  ['you know', /\byou know\b/gi],
+  ['I mean', /\bi mean\b/gi],
+  ['kind of', /\bkind of\b/gi],
+  ['sort of', /\bsort of\b/gi],
+  // Only "like" set off by commas or starting a clause, so "I like coffee" doesn't count.
+  ['like', /(?:^|[,.!?]\s*)like\b|\blike,/gi],
+];
+
+export function countFillers(text: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  FILLER_PATTERNS.forEach(([filler, pattern]) => {
+    const matches = text.match(pattern)?.length ?? 0;
+    if (matches) counts[filler] = matches;
+  });
+  return counts;
+}
+
+const countWords = (text: string) => text.trim() ? text.trim().split(/\s+/).length : 0;
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+// Measures who talks when during one live session, from mic voice activity and AI playback.
+// Fed from the mic level loop (sampleUser), the playback scheduler (setAiSpeaking) and finished user turns (addUserText).
+export class SpeakingMetricsTracker {
+  private clock: () => number;
+  private startedAt: number;
+  private userSpeaking = false;
+  private userSince = 0;
+  private lastUserVoice = 0;
+  private lastUserEnd: number | null = null;
+  private aiSpeaking = false;
+  private aiSince = 0;
+  private lastAiEnd: number | null = null;
+  private quietSince: number | null = null; // Set while neither side is talking (after the first utterance)
+  private userTalkMs = 0;
+  private aiTalkMs = 0;
+  private longestSilenceMs = 0;
+  private pauses: number[] = [];
+  private latencies: number[] = [];
+  private userWords = 0;
+  private fillers: Record<string, number> = {};
+
+  constructor(clock: () => number = () => performance.now()) {
+    this.clock = clock;
+    this.startedAt = clock();
+  }
+
+  sampleUser(voiceActive: boolean) {
+    const now = this.clock();
+    if (voiceActive) {
+      this.lastUserVoice = now;
+      if (!this.userSpeaking) this.startUser(now);
+    } else if (this.userSpeaking && now - this.lastUserVoice > HANGOVER_MS) {
+      this.endUser(this.lastUserVoice);
+    }
+  }
+
+  setAiSpeaking(speaking: boolean) {
+    const now = this.clock();
+    if (speaking === this.aiSpeaking) return;
+    if (speaking) {
+      this.endSilence(now);
+      this.aiSpeaking = true;
+      this.aiSince = now;
+    } else {
+      this.aiTalkMs += now - this.aiSince;
+      this.aiSpeaking = false;
+      this.lastAiEnd = now;
+      if (!this.userSpeaking) this.quietSince = now;
+    }
+  }
+
+  addUserText(text: string) {
+    this.userWords += countWords(text);
+    Object.entries(countFillers(text)).forEach(([filler, count]) => {
+      this.fillers[filler] = (this.fillers[filler] ?? 0) + count;
+    });
+  }
+
+  finish(): SpeakingMetrics {
+    const now = this.clock();
+    if (this.userSpeaking) this.endUser(Math.min(now, this.lastUserVoice + HANGOVER_MS));
+    if (this.aiSpeaking) this.setAiSpeaking(false);
+    return {
+      durationMs: Math.round(now - this.startedAt),
+      userTalkMs: Math.round(this.userTalkMs),
+      aiTalkMs: Math.round(this.aiTalkMs),
+      userWords: this.userWords,
+      wordsPerMinute: this.userTalkMs >= MIN_TALK_FOR_WPM_MS ? Math.round(this.userWords / (this.userTalkMs / 60000)) : 0,
+      avgPauseMs: Math.round(average(this.pauses)),
+      pauseCount: this.pauses.length,
+      longestSilenceMs: Math.round(this.longestSilenceMs),
+      avgTurnLatencyMs: Math.round(average(this.latencies)),
+      fillers: { ...this.fillers },
+      fillerCount: Object.values(this.fillers).reduce((a, b) => a + b, 0),
+    };
+  }
+
+  private startUser(now: number) {
+    this.endSilence(now);
+    const aiSpokeSinceUser = this.lastAiEnd !== null && (this.lastUserEnd === null || this.lastAiEnd > this.lastUserEnd);
+    if (aiSpokeSinceUser && !this.aiSpeaking) {
+      const latency = now - this.lastAiEnd!;
+      if (latency <= MAX_LATENCY_MS) this.latencies.push(latency);
+    } else if (!aiSpokeSinceUser && this.lastUserEnd !== null) {
+      const gap = now - this.lastUserEnd;
+      if (gap >= MIN_PAUSE_MS && gap <= MAX_PAUSE_MS) this.pauses.push(gap);
+    }
+    this.userSpeaking = true;
+    this.userSince = now;
+  }
+
+  private endUser(at: number) {
+    this.userTalkMs += Math.max(0, at - this.userSince);
+    this.userSpeaking = false;
+    this.lastUserEnd = at;
+    if (!this.aiSpeaking) this.quietSince = at;
+  }
+
+  private endSilence(now: number) {
+    if (this.quietSince !== null && !this.userSpeaking && !this.aiSpeaking) {
+      this.longestSilenceMs = Math.max(this.longestSilenceMs, now - this.quietSince);
+    }
+    this.quietSince = null;
+  }
+}
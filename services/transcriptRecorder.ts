@@ -0,0 +1,144 @@
+import { DEFAULT_PERSONA_ID, DEFAULT_SCENE_ID } from '../constants';
+import { ChatMessage, Correction, HeardAudio } from '../types';
+import { attachCorrection } from '../utils/corrections';
+
+export interface TurnContext {
+  personaId: string;
+  sceneId: string;
+}
+
+export interface TranscriptSnapshot {
+  turns: ChatMessage[];
+  liveInput: string; // User turn still being transcribed
+  liveOutput: string; // AI turn still being transcribed
+}
+
+interface PendingTurn extends TurnContext {
+  text: string;
+  startedAt: number;
+}
+
+const EMPTY_SNAPSHOT: TranscriptSnapshot = { turns: [], liveInput: '', liveOutput: '' };
+
+// Assembles the live session's transcription fragments into whole turns. This is the single record of what was said:
+// the transcript view renders its snapshot, and the finished turns are what gets saved, exported and scored.
+export class TranscriptRecorder {
+  private snapshot = EMPTY_SNAPSHOT;
+  private pendingUser: PendingTurn | null = null;
+  private pendingAi: PendingTurn | null = null;
+  private context: TurnContext;
+  private listeners = new Set<() => void>();
+
+  constructor(context: TurnContext) {
+    this.context = context;
+  }
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore.
+  getSnapshot = (): TranscriptSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getTurns(): ChatMessage[] {
+    return this.snapshot.turns;
+  }
+
+  get hasPendingUser() {
+    return !!this.pendingUser?.text.trim();
+  }
+
+  get hasPendingAi() {
+    return !!this.pendingAi?.text.trim();
+  }
+
+  reset(context: TurnContext) {
+    this.context = context;
+    this.pendingUser = null;
+    this.pendingAi = null;
+    this.snapshot = EMPTY_SNAPSHOT;
+    this.emit();
+  }
+
+  // Later turns are attributed to this persona and scene; a turn already in progress keeps the one it started with.
+  setContext(context: Partial<TurnContext>) {
+    this.context = { ...this.context, ...context };
+  }
+
+  appendUser(fragment: string) {
+    this.pendingUser = this.extend(this.pendingUser, fragment);
+    this.update({ liveInput: this.pendingUser.text });
+  }
+
+  appendAi(fragment: string) {
+    this.pendingAi = this.extend(this.pendingAi, fragment);
+    this.update({ liveOutput: this.pendingAi.text });
+  }
+
+  // Both return the finished turn, or null if nothing was pending.
+  flushUser(recordingId?: string): ChatMessage | null {
+    if (!this.pendingUser) return null;
+    const finished = this.finish(this.pendingUser, 'user');
+    const turn = finished && recordingId ? { ...finished, recordingId } : finished;
+    this.pendingUser = null;
+    this.update({ turns: turn ? [...this.snapshot.turns, turn] : this.snapshot.turns, liveInput: '' });
+    return turn;
+  }
+
+  flushAi(interrupted = false, heard?: HeardAudio): ChatMessage | null {
+    if (!this.pendingAi) return null;
+    const turn = this.finish(this.pendingAi, 'model');
+    this.pendingAi = null;
+    const finished = turn && interrupted ? { ...turn, interrupted: true, ...(heard ? { heard } : {}) } : turn;
+    this.update({ turns: finished ? [...this.snapshot.turns, finished] : this.snapshot.turns, liveOutput: '' });
+    return finished;
+  }
+
+  // For an AI turn whose text was already complete but whose audio was still playing when the user cut in.
+  // `turn` is the object flushAi returned; returns its replacement, or null if it's no longer in the transcript.
+  markInterrupted(turn: ChatMessage, heard?: HeardAudio): ChatMessage | null {
+    const index = this.snapshot.turns.indexOf(turn);
+    if (index === -1) return null;
+    const marked = { ...turn, interrupted: true, ...(heard ? { heard } : {}) };
+    this.update({ turns: this.snapshot.turns.map((t, i) => i === index ? marked : t) });
+    return marked;
+  }
+
+  // A whole user turn typed into the composer. Flush any spoken turn first so the order stays right.
+  addTypedUser(text: string): ChatMessage | null {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    const now = Date.now();
+    const turn: ChatMessage = { role: 'user', text: trimmed, ...this.context, startedAt: now, timestamp: now, typed: true };
+    this.update({ turns: [...this.snapshot.turns, turn] });
+    return turn;
+  }
+
+  attachCorrection(correction: Correction) {
+    this.update({ turns: attachCorrection(this.snapshot.turns, correction) });
+  }
+
+  private extend(pending: PendingTurn | null, fragment: string): PendingTurn {
+    return pending
+      ? { ...pending, text: pending.text + fragment }
+      : { ...this.context, text: fragment, startedAt: Date.now() };
+  }
+
+  private finish(pending: PendingTurn | null, role: ChatMessage['role']): ChatMessage | null {
+    const text = pending?.text.trim();
+    if (!pending || !text) return null;
+    return { role, text, personaId: pending.personaId, sceneId: pending.sceneId, startedAt: pending.startedAt, timestamp: Date.now() };
+  }
+
+  private update(changes: Partial<TranscriptSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const liveTranscript = new TranscriptRecorder({ personaId: DEFAULT_PERSONA_ID, sceneId: DEFAULT_SCENE_ID });
@@ -0,0 +1,122 @@
+import { Blob as PcmChunk } from "@google/genai";
+import { decode } from '../utils/audioUtils';
+
+export interface VoiceClip {
+  id: string;
+  audio: Blob; // 16 kHz mono WAV
+  durationMs: number;
+}
+
+const SAMPLE_RATE = 16000;
+const SETTINGS_KEY = 'deepsink_record_voice';
+// Only the most recent stretch is kept, so a turn that never gets transcribed can't grow the buffer forever.
+const MAX_BUFFER_SECONDS = 90;
+// Silence trimming works on 20 ms frames; a frame below this RMS (int16 scale, about -46 dBFS) counts as quiet.
+const FRAME_SAMPLES = 320;
+const SILENCE_RMS = 160;
+const EDGE_PADDING_FRAMES = 10;
+const MIN_CLIP_MS = 300;
+
+const createClipId = () => `clip-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function encodeWav(pcm: Int16Array, sampleRate = SAMPLE_RATE): Blob {
+  const buffer = new ArrayBuffer(44 + pcm.byteLength);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  new Int16Array(buffer, 44).set(pcm);
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+// Cuts leading and trailing silence, keeping a little padding so words aren't clipped.
+export function trimSilence(pcm: Int16Array): Int16Array {
+  const frames = Math.floor(pcm.length / FRAME_SAMPLES);
+  const isVoiced = (frame: number) => {
+    let sum = 0;
+    for (let i = frame * FRAME_SAMPLES; i < (frame + 1) * FRAME_SAMPLES; i++) sum += pcm[i] * pcm[i];
+    return Math.sqrt(sum / FRAME_SAMPLES) > SILENCE_RMS;
+  };
+  let first = 0;
+  while (first < frames && !isVoiced(first)) first++;
+  if (first === frames) return new Int16Array(0);
+  let last = frames - 1;
+  while (last > first && !isVoiced(last)) last--;
+  const start = Math.max(0, first - EDGE_PADDING_FRAMES) * FRAME_SAMPLES;
+  const end = Math.min(frames, last + 1 + EDGE_PADDING_FRAMES) * FRAME_SAMPLES;
+  return pcm.slice(start, end);
+}
+
+// Optionally keeps what the user said, turn by turn. It is fed the same PCM chunks that go to the live session,
+// so muted or push-to-talk audio that never left the browser isn't recorded either. Clips stay in memory until
+// the session is saved (see recordingStore).
+export class VoiceRecorder {
+  private enabled: boolean;
+  private chunks: Int16Array[] = [];
+  private bufferedSamples = 0;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    let saved = false;
+    try { saved = localStorage.getItem(SETTINGS_KEY) === 'true'; } catch (e) {}
+    this.enabled = saved;
+  }
+
+  // Arrow properties so they can be handed straight to useSyncExternalStore.
+  isEnabled = () => this.enabled;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) this.discard();
+    try { localStorage.setItem(SETTINGS_KEY, String(enabled)); } catch (e) {}
+    this.listeners.forEach(listener => listener());
+  }
+
+  push(chunk: PcmChunk) {
+    if (!this.enabled || !chunk.data) return;
+    const bytes = decode(chunk.data);
+    const samples = new Int16Array(bytes.buffer, 0, bytes.byteLength >> 1);
+    this.chunks.push(samples);
+    this.bufferedSamples += samples.length;
+    while (this.bufferedSamples - this.chunks[0].length > MAX_BUFFER_SECONDS * SAMPLE_RATE) {
+      this.bufferedSamples -= this.chunks.shift()!.length;
+    }
+  }
+
+  // Everything heard since the last cut, as one clip; null when recording is off or nothing audible was said.
+  cut(): VoiceClip | null {
+    if (this.chunks.length === 0) return null;
+    const pcm = new Int16Array(this.bufferedSamples);
+    let offset = 0;
+    this.chunks.forEach(chunk => { pcm.set(chunk, offset); offset += chunk.length; });
+    this.discard();
+    const trimmed = trimSilence(pcm);
+    const durationMs = (trimmed.length / SAMPLE_RATE) * 1000;
+    if (durationMs < MIN_CLIP_MS) return null;
+    return { id: createClipId(), audio: encodeWav(trimmed), durationMs: Math.round(durationMs) };
+  }
+
+  // Drops buffered audio, e.g. mic pickup while the partner was talking.
+  discard() {
+    this.chunks = [];
+    this.bufferedSamples = 0;
+  }
+}
+
+export const voiceRecorder = new VoiceRecorder();
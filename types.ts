@@ -17,22 +17,46 @@ export enum SceneId {
   FUTURISTIC = 'FUTURISTIC'
 }
 
+export type SpeakingSpeed = 'slow' | 'natural' | 'fast';
+export type SlangLevel = 'none' | 'light' | 'heavy';
+export type CorrectionStyle = 'gentle' | 'shadowing' | 'strict';
+
 export interface Persona {
-  id: PersonaId;
+  id: string; // Built-in personas use PersonaId values; custom personas get generated IDs
   name: string;
   role: string;
   description: string;
   voiceName: string;
   avatarUrl: string;
+  speakingSpeed: SpeakingSpeed;
+  slangLevel: SlangLevel;
+  correctionStyle: CorrectionStyle;
+  openingLine: string;
+  isCustom?: boolean;
+}
+
+// Role-play framing the model receives for a scene, so a scene changes the conversation and not just the backdrop.
+export interface SceneBrief {
+  setting: string;
+  goals: string[];
+  vocabulary: string[];
 }
 
+export type AmbienceLayer = 'rain' | 'crowd' | 'waves' | 'hvac';
+
+// Volume (0–1) of each generated background layer; missing layers are silent.
+export type AmbienceMix = Partial<Record<AmbienceLayer, number>>;
+
 export interface Scene {
-  id: SceneId;
+  id: string; // Built-in scenes use SceneId values; custom scenes get generated IDs
   name: string;
   type: 'shader' | 'image';
   shaderCode?: string; // Fragment shader code
   imageUrl?: string;
-  ambientSoundUrl?: string; // Optional ambient sound
+  ambientSoundUrl?: string; // Optional sound file, looped on top of the generated layers
+  ambience?: AmbienceMix;
+  brief: SceneBrief;
+  isCustom?: boolean;
 }
 
 export interface AudioVisualizerState {
@@ -40,15 +64,154 @@ export interface AudioVisualizerState {
   volume: number;
 }
 
+export type CorrectionCategory = 'grammar' | 'vocabulary' | 'word-choice' | 'pronunciation' | 'naturalness';
+
+export interface Correction {
+  original: string; // What the user said
+  corrected: string;
+  category: CorrectionCategory;
+  explanation: string;
+}
+
+// How much of an AI turn's audio reached the user before they cut in.
+export interface HeardAudio {
+  heardMs: number; // Actually played
+  receivedMs: number; // Received for the turn before the cut-off
+}
+
+// One finished turn of the conversation. Built from transcription fragments by services/transcriptRecorder.ts and
+// used as-is by the transcript view, history, export and scoring.
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
-  timestamp: number;
+  personaId: string; // Partner at the time, so persona switches mid-session keep the right names
+  sceneId: string;
+  startedAt: number; // First transcription fragment
+  timestamp: number; // When the turn ended
+  interrupted?: boolean; // AI turn cut off by barge-in or a dropped connection
+  heard?: HeardAudio; // Interrupted spoken AI turns only
+  typed?: boolean; // User turn sent from the text composer instead of spoken
+  recordingId?: string; // Recording of the user's own voice for this turn (see services/recordingStore.ts)
+  corrections?: Correction[]; // Only on user messages, reported by the model via the reportCorrection tool
+}
+
+export interface MissionObjective {
+  id: string;
+  description: string;
+}
+
+// A structured role-play: a fixed scene and partner, objectives the model ticks off via tool calls, and phrases to practise.
+export interface Mission {
+  id: string;
+  title: string;
+  description: string;
+  sceneId: string;
+  personaId: string;
+  objectives: MissionObjective[];
+  targetPhrases: string[];
+}
+
+export interface MissionProgress {
+  missionId: string;
+  completedObjectiveIds: string[];
+  usedPhrases: string[]; // Target phrases the user actually said
+  outcome?: string | null; // The model's wrap-up when it declared the mission finished
+}
+
+export interface MissionGrade {
+  success: boolean;
+  score: number;
+  comment: string;
+}
+
+// A phrase the partner introduced during a session, reported via the teachPhrase tool.
+export interface VocabularyItem {
+  phrase: string;
+  meaning: string;
+  example: string;
+}
+
+export type ReviewCardKind = 'mistake' | 'vocabulary';
+
+// One spaced-repetition card. Scheduling fields follow SM-2; `dueAt` is epoch milliseconds.
+export interface ReviewCard {
+  id: string; // Derived from kind + prompt so the same mistake made twice stays one card
+  kind: ReviewCardKind;
+  prompt: string; // Mistake: what the user said. Vocabulary: the phrase.
+  answer: string; // Mistake: the corrected phrase. Vocabulary: its meaning.
+  note: string; // Explanation or example sentence
+  sourceSessionId: string;
+  createdAt: number;
+  repetitions: number;
+  interval: number; // Days
+  easeFactor: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+// Sub-scores of the detailed rubric, each scored 0-100.
+export type RubricCriterion = 'fluency' | 'vocabulary' | 'grammar' | 'pronunciation' | 'coherence' | 'interaction';
+
+export interface ScoreEvidence {
+  criterion: RubricCriterion;
+  quote: string; // Verbatim user turn (or part of one)
+  note: string;
+}
+
+// Reports written before the detailed rubric only carry total/fluency/vocabulary/nativeLike/comment;
+// the rubric fields are optional so those stay readable.
+export interface ScoreData {
+  total: number;
+  fluency: number;
+  vocabulary: number;
+  nativeLike: number;
+  comment: string;
+  grammar?: number;
+  pronunciation?: number; // Proxy inferred from transcription, not from the audio itself
+  coherence?: number;
+  interaction?: number;
+  cefrLevel?: CefrLevel | null;
+  strengths?: string[];
+  weaknesses?: string[];
+  evidence?: ScoreEvidence[];
+  mission?: MissionGrade | null; // Only for mission sessions
+}
+
+// Measured on-device from mic voice activity and AI playback, independent of the AI score. Durations in ms.
+export interface SpeakingMetrics {
+  durationMs: number;
+  userTalkMs: number;
+  aiTalkMs: number;
+  userWords: number;
+  wordsPerMinute: number; // 0 when too little speech was measured
+  avgPauseMs: number; // Mid-turn pauses between the user's own stretches of speech
+  pauseCount: number;
+  longestSilenceMs: number; // Longest stretch where neither side was speaking
+  avgTurnLatencyMs: number; // From the end of an AI reply to the user starting to speak
+  fillers: Record<string, number>;
+  fillerCount: number;
 }
 
 export interface SavedSession {
   id: string;
+  version: number; // Storage schema version the record was written with
   date: string;
+  personaId: string;
+  sceneId: string;
+  topic?: string | null; // Search topic used as conversation context
+  imageContext?: string | null;
   messages: ChatMessage[];
-  score?: any;
-}
\ No newline at end of file
+  mission?: MissionProgress | null;
+  vocabulary?: VocabularyItem[];
+  metrics?: SpeakingMetrics | null;
+  score?: ScoreData | null;
+}
+
+export interface ProgressReport {
+  score: ScoreData;
+  generatedAt: string;
+  sessionCount: number;
+  latestSessionId: string; // Newest session included, used to tell whether the report is stale
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { AMBIENCE_LAYERS, AMBIENCE_LOOP_SECONDS, makeSeamlessLoop, synthesizeLayer } from './ambienceSynth';
+
+// Small deterministic generator so the tests don't depend on Math.random.
+const seeded = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const SAMPLE_RATE = 8000;
+
+describe('makeSeamlessLoop', () => {
+  it('continues from the last sample straight into the first', () => {
+    const take = new Float32Array(120).map((_, i) => i);
+    const loop = makeSeamlessLoop(take, 100);
+    expect(loop).toHaveLength(100);
+    // Wrapping around lands on what followed the loop's last sample in the original take.
+    expect(loop[0]).toBe(take[100]);
+    expect(loop[99]).toBe(take[99]);
+  });
+
+  it('blends into the original start over the crossfade', () => {
+    const take = new Float32Array(120).map((_, i) => (i < 100 ? 1 : 0));
+    const loop = makeSeamlessLoop(take, 100);
+    expect(loop[0]).toBe(0);
+    expect(loop[10]).toBeCloseTo(0.5);
+    expect(loop[20]).toBe(1);
+  });
+});
+
+describe('synthesizeLayer', () => {
+  it.each(AMBIENCE_LAYERS)('renders a normalized loop of %s', (layer) => {
+    const samples = synthesizeLayer(layer, SAMPLE_RATE, seeded(1));
+    expect(samples).toHaveLength(AMBIENCE_LOOP_SECONDS * SAMPLE_RATE);
+    let peak = 0;
+    let sum = 0;
+    for (const s of samples) {
+      peak = Math.max(peak, Math.abs(s));
+      sum += s;
+    }
+    expect(peak).toBeCloseTo(0.5);
+    expect(Math.abs(sum / samples.length)).toBeLessThan(0.1);
+  });
+
+  it.each(AMBIENCE_LAYERS)('has no jump at the loop point for %s', (layer) => {
+    const samples = synthesizeLayer(layer, SAMPLE_RATE, seeded(2));
+    let largestStep = 0;
+    for (let i = 1; i < samples.length; i++) largestStep = Math.max(largestStep, Math.abs(samples[i] - samples[i - 1]));
+    expect(Math.abs(samples[0] - samples[samples.length - 1])).toBeLessThanOrEqual(largestStep);
+  });
+
+  it('is deterministic for a given random source', () => {
+    expect(synthesizeLayer('waves', SAMPLE_RATE, seeded(3))).toEqual(synthesizeLayer('waves', SAMPLE_RATE, seeded(3)));
+  });
+});
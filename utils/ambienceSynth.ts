@@ -0,0 +1,114 @@
+import { AmbienceLayer } from '../types';
+
+export const AMBIENCE_LAYERS: AmbienceLayer[] = ['rain', 'crowd', 'waves', 'hvac'];
+
+export const AMBIENCE_LAYER_LABELS: Record<AmbienceLayer, string> = {
+  rain: 'Rain',
+  crowd: 'Crowd murmur',
+  waves: 'Waves',
+  hvac: 'Air conditioning hum',
+};
+
+// Shaping applied by a BiquadFilterNode at playback, so the generated samples can stay raw noise textures.
+export const AMBIENCE_LAYER_FILTERS: Record<AmbienceLayer, { type: BiquadFilterType; frequency: number; Q: number }> = {
+  rain: { type: 'bandpass', frequency: 3000, Q: 0.4 },
+  crowd: { type: 'bandpass', frequency: 700, Q: 0.8 },
+  waves: { type: 'lowpass', frequency: 1000, Q: 0.5 },
+  hvac: { type: 'lowpass', frequency: 400, Q: 0.7 },
+};
+
+// Whole seconds, so the wave swell and the mains hum complete an exact number of cycles per loop.
+export const AMBIENCE_LOOP_SECONDS = 8;
+const LOOP_CROSSFADE_SECONDS = 0.05;
+const PEAK = 0.5;
+
+type Random = () => number;
+
+const white = (random: Random) => random() * 2 - 1;
+
+// Integrated white noise, leaky so it doesn't drift off centre.
+function brownNoise(length: number, random: Random): Float32Array {
+  const out = new Float32Array(length);
+  let last = 0;
+  for (let i = 0; i < length; i++) {
+    last = (last + 0.02 * white(random)) / 1.02;
+    out[i] = last;
+  }
+  return out;
+}
+
+// Joins the extra tail of a slightly longer take onto its start, so playing the result with loop = true has no click.
+export function makeSeamlessLoop(take: Float32Array, loopLength: number): Float32Array {
+  const fade = take.length - loopLength;
+  const out = take.slice(0, loopLength);
+  for (let i = 0; i < fade; i++) {
+    const t = i / fade;
+    out[i] = take[i] * t + take[loopLength + i] * (1 - t);
+  }
+  return out;
+}
+
+function normalize(samples: Float32Array): Float32Array {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (peak > 0) for (let i = 0; i < samples.length; i++) samples[i] *= PEAK / peak;
+  return samples;
+}
+
+function rain(length: number, sampleRate: number, random: Random): Float32Array {
+  const out = new Float32Array(length);
+  const gusts = brownNoise(length, random);
+  let drop = 0;
+  for (let i = 0; i < length; i++) {
+    // Steady hiss that swells with the wind, plus the odd closer drop.
+    if (random() < 40 / sampleRate) drop = 0.6 + random() * 0.4;
+    drop *= 0.995;
+    out[i] = white(random) * (0.5 + 4 * Math.abs(gusts[i]) + drop);
+  }
+  return out;
+}
+
+function crowd(length: number, sampleRate: number, random: Random): Float32Array {
+  const out = new Float32Array(length);
+  // A handful of overlapping talkers, each a stream of noisy syllables with pauses between phrases.
+  for (let voice = 0; voice < 8; voice++) {
+    const noise = brownNoise(length, random);
+    const syllableRate = 3 + random() * 3;
+    let phase = random() * Math.PI * 2;
+    let talking = random() < 0.6;
+    for (let i = 0; i < length; i++) {
+      if (random() < 0.4 / sampleRate) talking = !talking;
+      phase += (2 * Math.PI * syllableRate) / sampleRate;
+      if (talking) out[i] += noise[i] * Math.max(0, Math.sin(phase));
+    }
+  }
+  return out;
+}
+
+function waves(length: number, sampleRate: number, random: Random): Float32Array {
+  const out = brownNoise(length, random);
+  const period = AMBIENCE_LOOP_SECONDS / 2;
+  for (let i = 0; i < length; i++) {
+    const swell = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (sampleRate * period));
+    out[i] *= 0.15 + 0.85 * swell * swell;
+  }
+  return out;
+}
+
+function hvac(length: number, sampleRate: number, random: Random): Float32Array {
+  const out = brownNoise(length, random);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    out[i] += 0.004 * Math.sin(2 * Math.PI * 60 * t) + 0.002 * Math.sin(2 * Math.PI * 120 * t);
+  }
+  return out;
+}
+
+const GENERATORS: Record<AmbienceLayer, (length: number, sampleRate: number, random: Random) => Float32Array> = { rain, crowd, waves, hvac };
+
+// One loop of a background layer as mono samples, ready to copy into an AudioBuffer.
+export function synthesizeLayer(layer: AmbienceLayer, sampleRate: number, random: Random = Math.random): Float32Array {
+  const loopLength = AMBIENCE_LOOP_SECONDS * sampleRate;
+  const take = GENERATORS[layer](loopLength + Math.round(LOOP_CROSSFADE_SECONDS * sampleRate), sampleRate, random);
+  return normalize(makeSeamlessLoop(take, loopLength));
+}
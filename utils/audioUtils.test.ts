@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { encode, decode, decodeAudioData, createBlob, createBlobFromPcm16, resampleLinear, computeRms } from './audioUtils';
+
+// Just enough of AudioContext for decodeAudioData: planar float buffers.
+const fakeContext = () => ({
+  createBuffer: (numberOfChannels: number, length: number, sampleRate: number) => {
+    const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    return { numberOfChannels, length, sampleRate, duration: length / sampleRate, getChannelData: (c: number) => channels[c] };
+  },
+}) as unknown as AudioContext;
+
+const pcm16Bytes = (samples: number[]) => new Uint8Array(new Int16Array(samples).buffer);
+
+describe('encode / decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = new Uint8Array(256).map((_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('produces standard base64', () => {
+    expect(encode(new TextEncoder().encode('Hi!'))).toBe('SGkh');
+    expect(decode('SGkh')).toEqual(new TextEncoder().encode('Hi!'));
+  });
+
+  it('handles empty input', () => {
+    expect(encode(new Uint8Array(0))).toBe('');
+    expect(decode('')).toEqual(new Uint8Array(0));
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('scales 16-bit samples to floats', async () => {
+    const buffer = await decodeAudioData(pcm16Bytes([0, 16384, -32768, 32767]), fakeContext(), 24000, 1);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(buffer.length).toBe(4);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it('deinterleaves stereo', async () => {
+    const buffer = await decodeAudioData(pcm16Bytes([16384, -16384, 8192, -8192]), fakeContext(), 48000, 2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+
+  it('reports the clip duration at the given rate', async () => {
+    const buffer = await decodeAudioData(pcm16Bytes(new Array(12000).fill(0)), fakeContext(), 24000, 1);
+    expect(buffer.duration).toBe(0.5);
+  });
+});
+
+describe('createBlob', () => {
+  const samples = (blob: { data?: string }) => Array.from(new Int16Array(decode(blob.data ?? '').buffer));
+
+  it('encodes floats as 16 kHz 16-bit PCM', () => {
+    const blob = createBlob(new Float32Array([0, 0.5, -0.5, 1, -1]));
+    expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+    expect(samples(blob)).toEqual([0, 16383, -16384, 32767, -32768]);
+  });
+
+  it('clips out-of-range samples', () => {
+    expect(samples(createBlob(new Float32Array([2, -3])))).toEqual([32767, -32768]);
+  });
+
+  it('respects the view of a PCM buffer that is part of a larger one', () => {
+    const whole = new Int16Array([1, 2, 3, 4]);
+    expect(samples(createBlobFromPcm16(whole.subarray(1, 3)))).toEqual([2, 3]);
+  });
+});
+
+describe('resampleLinear', () => {
+  it('returns the input unchanged at the same rate', () => {
+    const data = new Float32Array([1, 2, 3]);
+    expect(resampleLinear(data, 16000, 16000)).toBe(data);
+  });
+
+  it('interpolates between neighbouring samples', () => {
+    expect(Array.from(resampleLinear(new Float32Array([0, 1, 2, 3, 4, 5]), 48000, 16000))).toEqual([0, 3]);
+    expect(Array.from(resampleLinear(new Float32Array([0, 1, 2, 3]), 24000, 16000))).toEqual([0, 1.5]);
+  });
+});
+
+describe('computeRms', () => {
+  it('is zero for silence and empty blocks', () => {
+    expect(computeRms(new Float32Array(8))).toBe(0);
+    expect(computeRms(new Float32Array(0))).toBe(0);
+  });
+
+  it('matches the level of a full-scale square wave', () => {
+    expect(computeRms(new Float32Array([1, -1, 1, -1]))).toBe(1);
+  });
+});
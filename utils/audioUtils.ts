@@ -42,10 +42,37 @@ export function createBlob(data: Float32Array): Blob {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
   }
+  return createBlobFromPcm16(int16);
+}
+
+// For PCM that was already converted to 16-bit off the main thread (see the capture worklet).
+export function createBlobFromPcm16(int16: Int16Array): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
+    data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
     mimeType: 'audio/pcm;rate=16000',
   };
-}
\ No newline at end of file
+}
+
+// Linear-interpolation resampler for the ScriptProcessor fallback when the browser ignores the requested rate.
+export function resampleLinear(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return data;
+  const ratio = fromRate / toRate;
+  const out = new Float32Array(Math.floor(data.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const idx = Math.floor(pos);
+    const next = Math.min(idx + 1, data.length - 1);
+    out[i] = data[idx] + (data[next] - data[idx]) * (pos - idx);
+  }
+  return out;
+}
+
+// Root-mean-square level of a block of float samples (0 = silence, ~0.7 = full-scale sine).
+export function computeRms(data: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+  return data.length ? Math.sqrt(sum / data.length) : 0;
+}
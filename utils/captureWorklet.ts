@@ -0,0 +1,50 @@
+// --- AUDIO WORKLET CODE (runs on the audio rendering thread) ---
+// Resamples mono input from the context's native rate to `targetRate` and posts 16-bit PCM
+// batches of `batchSize` samples back to the main thread as transferable buffers.
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture-processor';
+
+export const PCM_CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, batchSize } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.batchSize = batchSize;
+    this.batch = new Int16Array(batchSize);
+    this.filled = 0;
+    // Fractional read position relative to the current block; -1..0 interpolates from the previous block's last sample.
+    this.position = 0;
+    this.previous = 0;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.batch[this.filled++] = s < 0 ? s * 32768 : s * 32767;
+    if (this.filled === this.batchSize) {
+      this.port.postMessage(this.batch, [this.batch.buffer]);
+      this.batch = new Int16Array(this.batchSize);
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input || input.length === 0) return true;
+
+    let pos = this.position;
+    while (pos < input.length - 1) {
+      const idx = Math.floor(pos);
+      const frac = pos - idx;
+      const s0 = idx < 0 ? this.previous : input[idx];
+      const s1 = input[idx + 1];
+      this.push(s0 + (s1 - s0) * frac);
+      pos += this.ratio;
+    }
+    this.position = pos - input.length;
+    this.previous = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('${PCM_CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
@@ -0,0 +1,54 @@
+import { ChatMessage, Correction, CorrectionCategory } from '../types';
+
+export const CORRECTION_CATEGORIES: CorrectionCategory[] = ['grammar', 'vocabulary', 'word-choice', 'pronunciation', 'naturalness'];
+
+// How many of the most recent user turns a correction may refer back to.
+const LOOKBACK_USER_TURNS = 4;
+
+export function parseCorrection(raw: any): Correction | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const original = typeof raw.original === 'string' ? raw.original.trim() : '';
+  const corrected = typeof raw.corrected === 'string' ? raw.corrected.trim() : '';
+  if (!original || !corrected) return null;
+  return {
+    original,
+    corrected,
+    category: CORRECTION_CATEGORIES.includes(raw.category) ? raw.category : 'grammar',
+    explanation: typeof raw.explanation === 'string' ? raw.explanation.trim() : '',
+  };
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9' ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Attaches a correction to the user message it refers to: the latest of the last few turns containing the original
+// phrase, or else the latest user turn (transcription rarely matches the model's quote exactly). Returns the input
+// unchanged if there is no user turn yet.
+export function attachCorrection(messages: ChatMessage[], correction: Correction): ChatMessage[] {
+  const userIndexes = messages.map((m, i) => m.role === 'user' ? i : -1).filter(i => i >= 0).slice(-LOOKBACK_USER_TURNS);
+  if (userIndexes.length === 0) return messages;
+  const needle = normalize(correction.original);
+  const target = [...userIndexes].reverse().find(i => needle && normalize(messages[i].text).includes(needle)) ?? userIndexes[userIndexes.length - 1];
+  return messages.map((m, i) => {
+    if (i !== target) return m;
+    const existing = m.corrections ?? [];
+    if (existing.some(c => c.original === correction.original && c.corrected === correction.corrected)) return m;
+    return { ...m, corrections: [...existing, correction] };
+  });
+}
+
+export const collectCorrections = (messages: ChatMessage[]): Correction[] =>
+  messages.flatMap(m => m.corrections ?? []);
+
+// The user's sentence with each correction applied where its original wording can be found. If none can,
+// the corrected phrases on their own are the best available model answer.
+export function applyCorrections(text: string, corrections: Correction[]): string {
+  let result = text;
+  let applied = false;
+  corrections.forEach(c => {
+    const index = result.toLowerCase().indexOf(c.original.toLowerCase());
+    if (index < 0) return;
+    result = result.slice(0, index) + c.corrected + result.slice(index + c.original.length);
+    applied = true;
+  });
+  return applied ? result : corrections.map(c => c.corrected).join('. ');
+}
@@ -0,0 +1,148 @@
+import { CorrectionCategory, SavedSession } from '../types';
+import { WORDS_PER_SECOND } from './transcriptExport';
+
+export interface ScorePoint {
+  date: number;
+  total: number;
+  fluency: number;
+  vocabulary: number;
+  nativeLike: number;
+  grammar?: number;
+  pronunciation?: number;
+  coherence?: number;
+  interaction?: number;
+}
+
+export interface PeriodTotal {
+  start: number; // Local midnight that starts the day or week
+  minutes: number;
+}
+
+export interface SessionWords {
+  date: number;
+  words: number;
+}
+
+export interface UsageCount {
+  id: string;
+  count: number;
+}
+
+export interface ProgressStats {
+  sessionCount: number;
+  scores: ScorePoint[];
+  minutesPerDay: PeriodTotal[];
+  minutesPerWeek: PeriodTotal[];
+  totalMinutes: number;
+  currentStreak: number; // Consecutive days with a session, ending today or yesterday
+  longestStreak: number;
+  wordsPerSession: SessionWords[];
+  topPersonas: UsageCount[];
+  topScenes: UsageCount[];
+  errorCategories: { category: CorrectionCategory; count: number }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_CHARTED = 14;
+const WEEKS_CHARTED = 8;
+
+const countWords = (text: string) => text.trim() ? text.trim().split(/\s+/).length : 0;
+
+const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Weeks start on Monday.
+const startOfWeek = (time: number) => {
+  const d = new Date(startOfDay(time));
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+// Day keys are calendar dates rather than 24h steps so daylight-saving changes don't break streaks.
+const dayKey = (time: number) => new Date(time).toDateString();
+
+function rankBy<T>(items: T[], key: (item: T) => string): UsageCount[] {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(key(item), (counts.get(key(item)) ?? 0) + 1));
+  return [...counts.entries()].map(([id, count]) => ({ id, count })).sort((a, b) => b.count - a.count);
+}
+
+function computeStreaks(days: Set<string>, now: number) {
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  [...days].map(d => new Date(d).getTime()).sort((a, b) => a - b).forEach(day => {
+    run = previous !== null && dayKey(previous + DAY_MS * 1.5) === dayKey(day) ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  let current = 0;
+  let cursor = startOfDay(now);
+  if (!days.has(dayKey(cursor))) cursor = startOfDay(cursor - DAY_MS / 2); // A streak survives until the end of today
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor = startOfDay(cursor - DAY_MS / 2);
+  }
+  return { current, longest };
+}
+
+// Everything here is derived from the locally stored sessions; nothing is sent anywhere.
+// Speaking time is estimated from the words the user said, since sessions don't record audio durations.
+export function computeProgressStats(sessions: SavedSession[], now = Date.now()): ProgressStats {
+  const chronological = [...sessions].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+
+  const scores: ScorePoint[] = chronological.filter(s => s.score).map(s => {
+    const { total, fluency, vocabulary, nativeLike, grammar, pronunciation, coherence, interaction } = s.score!;
+    return { date: Date.parse(s.date), total, fluency, vocabulary, nativeLike, grammar, pronunciation, coherence, interaction };
+  });
+
+  const wordsPerSession = chronological.map(s => ({
+    date: Date.parse(s.date),
+    words: s.messages.filter(m => m.role === 'user').reduce((sum, m) => sum + countWords(m.text), 0),
+  }));
+  // Sessions recorded with speaking metrics carry measured talk time; older ones fall back to the word-count estimate.
+  const spokenMinutes = chronological.map((s, i) => s.metrics?.userTalkMs
+    ? s.metrics.userTalkMs / 60000
+    : wordsPerSession[i].words / WORDS_PER_SECOND / 60);
+
+  const today = startOfDay(now);
+  const minutesPerDay: PeriodTotal[] = Array.from({ length: DAYS_CHARTED }, (_, i) => ({
+    start: startOfDay(today - (DAYS_CHARTED - 1 - i) * DAY_MS + DAY_MS / 2),
+    minutes: 0,
+  }));
+  const thisWeek = startOfWeek(now);
+  const minutesPerWeek: PeriodTotal[] = Array.from({ length: WEEKS_CHARTED }, (_, i) => ({
+    start: startOfWeek(thisWeek - (WEEKS_CHARTED - 1 - i) * 7 * DAY_MS + DAY_MS / 2),
+    minutes: 0,
+  }));
+  wordsPerSession.forEach(({ date }, i) => {
+    const minutes = spokenMinutes[i];
+    const day = minutesPerDay.find(d => d.start === startOfDay(date));
+    if (day) day.minutes += minutes;
+    const week = minutesPerWeek.find(w => w.start === startOfWeek(date));
+    if (week) week.minutes += minutes;
+  });
+
+  const streaks = computeStreaks(new Set(chronological.map(s => dayKey(Date.parse(s.date)))), now);
+
+  const corrections = chronological.flatMap(s => s.messages.flatMap(m => m.corrections ?? []));
+  const errorCategories = rankBy(corrections, c => c.category).map(({ id, count }) => ({ category: id as CorrectionCategory, count }));
+
+  return {
+    sessionCount: sessions.length,
+    scores,
+    minutesPerDay,
+    minutesPerWeek,
+    totalMinutes: spokenMinutes.reduce((sum, m) => sum + m, 0),
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    wordsPerSession,
+    topPersonas: rankBy(chronological, s => s.personaId),
+    topScenes: rankBy(chronological, s => s.sceneId),
+    errorCategories,
+  };
+}
@@ -0,0 +1,32 @@
+import { CefrLevel, RubricCriterion, ScoreData, ScoreEvidence } from '../types';
+
+export const RUBRIC_CRITERIA: RubricCriterion[] = ['fluency', 'vocabulary', 'grammar', 'pronunciation', 'coherence', 'interaction'];
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export const RUBRIC_LABELS: Record<RubricCriterion, string> = {
+  fluency: 'Fluency',
+  vocabulary: 'Vocab',
+  grammar: 'Grammar',
+  pronunciation: 'Pronunciation',
+  coherence: 'Coherence',
+  interaction: 'Interaction',
+};
+
+// Band descriptors sent with every scoring request so the same performance lands on the same numbers.
+export const RUBRIC_DESCRIPTORS: Record<RubricCriterion, string> = {
+  fluency: 'Flow and pace. 90+: effortless, no searching for words. 70: some hesitation but keeps going. 50: frequent pauses or restarts. <30: isolated words.',
+  vocabulary: 'Range and precision. 90+: idiomatic, precise, varied. 70: adequate with some repetition. 50: basic words, circumlocution. <30: very limited.',
+  grammar: 'Accuracy and range of structures. 90+: rare slips, complex sentences. 70: errors that do not block meaning. 50: frequent errors, simple structures. <30: meaning often unclear.',
+  pronunciation: 'Proxy only, judged from the speech-recognition transcript: words that were clearly misheard, garbled or fragmented suggest unclear pronunciation. 90+: transcript is clean. 50: several misrecognitions. Be conservative.',
+  coherence: 'Logical, connected turns. 90+: well-organised with linking words. 70: mostly clear. 50: disjointed or off-topic. <30: hard to follow.',
+  interaction: 'Conversation management. 90+: asks questions, builds on the partner, takes initiative. 70: responds appropriately. 50: minimal answers. <30: barely engages.',
+};
+
+export const hasRubric = (score: ScoreData) => typeof score.grammar === 'number';
+
+// The total is the plain mean of the six sub-scores rather than the model's own figure, which tends to drift.
+export const rubricTotal = (scores: Record<RubricCriterion, number>) =>
+  Math.round(RUBRIC_CRITERIA.reduce((sum, c) => sum + scores[c], 0) / RUBRIC_CRITERIA.length);
+
+export const evidenceFor = (score: ScoreData, criterion: RubricCriterion): ScoreEvidence[] =>
+  (score.evidence ?? []).filter(e => e.criterion === criterion);
@@ -0,0 +1,29 @@
+import { ReviewCard } from '../types';
+
+export type Sm2Fields = Pick<ReviewCard, 'repetitions' | 'interval' | 'easeFactor' | 'dueAt'>;
+
+// 0 = total blackout … 5 = perfect recall. Anything below 3 counts as a lapse.
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Lapsed cards come back within the same sitting instead of waiting a full day.
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export const initialSm2 = (now: number): Sm2Fields => ({
+  repetitions: 0,
+  interval: 0,
+  easeFactor: 2.5,
+  dueAt: now,
+});
+
+// Classic SM-2: intervals of 1 and 6 days, then the previous interval times the ease factor.
+export function scheduleSm2(card: Sm2Fields, quality: ReviewQuality, now: number): Sm2Fields {
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  if (quality < 3) {
+    return { repetitions: 0, interval: 0, easeFactor, dueAt: now + RELEARN_DELAY_MS };
+  }
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easeFactor);
+  return { repetitions, interval, easeFactor, dueAt: now + interval * DAY_MS };
+}
@@ -0,0 +1,180 @@
+import { sceneCatalog } from '../services/sceneCatalog';
+import { missionCatalog } from '../services/missionCatalog';
+import { hasRubric, RUBRIC_CRITERIA, RUBRIC_LABELS } from './scoring';
+import { personaCatalog } from '../services/personaCatalog';
+import { ChatMessage, SavedSession } from '../types';
+
+export type TranscriptFormat = 'txt' | 'md' | 'json' | 'srt' | 'vtt';
+
+export const TRANSCRIPT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: 'txt', label: 'Plain text' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'srt', label: 'SRT subtitles' },
+  { format: 'vtt', label: 'WebVTT subtitles' },
+];
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  json: 'application/json',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+};
+
+// Typical conversational speaking rate, used wherever speech timing has to be estimated from text.
+export const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1000;
+
+const speakerName = (msg: ChatMessage) =>
+  msg.role === 'user' ? 'You' : personaCatalog.nameOf(msg.personaId);
+
+// For an AI turn the user cut into: the text they actually heard and the rest, split at a word boundary in proportion
+// to the audio that was played. Transcription runs alongside the audio, so this is close but not word-exact.
+export function splitHeardText(msg: ChatMessage): { heard: string; unheard: string } {
+  if (!msg.heard || msg.heard.receivedMs <= 0) return { heard: msg.text, unheard: '' };
+  const share = Math.min(1, msg.heard.heardMs / msg.heard.receivedMs);
+  if (share <= 0) return { heard: '', unheard: msg.text };
+  const end = msg.text.indexOf(' ', Math.round(msg.text.length * share));
+  return end === -1 ? { heard: msg.text, unheard: '' } : { heard: msg.text.slice(0, end), unheard: msg.text.slice(end) };
+}
+
+// Where the last sentence of `text` starts, as a share of its length (0 when it's a single sentence).
+export function lastSentenceShare(text: string): number {
+  const trimmed = text.trim();
+  const boundaries = [...trimmed.slice(0, -1).matchAll(/[.!?…]["'”)\]]*\s+/g)];
+  const last = boundaries[boundaries.length - 1];
+  return last && last.index !== undefined ? (last.index + last[0].length) / trimmed.length : 0;
+}
+
+// Plain "Speaker: text" lines, as sent to the model for scoring and for carrying context across reconnects.
+// The user is always "User" (report evidence is verified against those lines); the partner goes by the persona
+// that was active for that turn, and an interrupted turn ends where the user stopped hearing it.
+export const formatTurns = (messages: ChatMessage[]) =>
+  messages.map(m => `${m.role === 'user' ? 'User' : personaCatalog.nameOf(m.personaId)}: ${m.heard ? splitHeardText(m).heard : m.text}${m.interrupted ? ' [interrupted]' : ''}${m.typed ? ' [typed]' : ''}`).join('\n');
+
+const clock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// Turns carry their own start and end times. Older sessions only recorded when a turn finished, so their cues are
+// stretched back towards the previous turn by an estimate of how long it took to say.
+function buildCues(session: SavedSession): Cue[] {
+  const first = session.messages[0];
+  if (!first) return [];
+  const spokenFor = (msg: ChatMessage) => msg.startedAt < msg.timestamp ? msg.timestamp - msg.startedAt : estimateDuration(msg.text);
+  const origin = first.timestamp - spokenFor(first);
+  let cursor = 0;
+  return session.messages.map(msg => {
+    const end = Math.max(msg.timestamp - origin, cursor + MIN_CUE_MS);
+    const start = Math.max(cursor, end - spokenFor(msg));
+    cursor = end;
+    return { start, end, speaker: speakerName(msg), text: msg.text };
+  });
+}
+
+function estimateDuration(text: string) {
+  const words = text.trim().split(/\s+/).length;
+  return Math.max(MIN_CUE_MS, (words / WORDS_PER_SECOND) * 1000);
+}
+
+function formatCueTime(ms: number, separator: ',' | '.') {
+  const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, '0');
+  const hours = ms / 3600000;
+  const minutes = (ms % 3600000) / 60000;
+  const seconds = (ms % 60000) / 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+const missionTitle = (session: SavedSession) =>
+  session.mission ? missionCatalog.get(session.mission.missionId)?.title ?? session.mission.missionId : '';
+
+function toText(session: SavedSession) {
+  const header = [
+    `DeepSink English - ${new Date(session.date).toLocaleString()}`,
+    `Partner: ${personaCatalog.nameOf(session.personaId)} | Scene: ${sceneCatalog.get(session.sceneId)?.name ?? session.sceneId}`,
+    session.topic ? `Topic: ${session.topic}` : null,
+    session.mission ? `Mission: ${missionTitle(session)}${session.score?.mission ? ` - ${session.score.mission.success ? 'accomplished' : 'not accomplished'} (${session.score.mission.score}/100)` : ''}` : null,
+    session.score ? `Score: ${session.score.total}/100 - ${session.score.comment}` : null,
+  ].filter(Boolean).join('\n');
+  const body = session.messages.map(m => [
+    `[${clock(m.timestamp)}] ${speakerName(m)}: ${m.text}${m.interrupted ? ' [interrupted]' : ''}`,
+    ...(m.corrections ?? []).map(c => `    * ${c.original} -> ${c.corrected} (${c.category}) ${c.explanation}`),
+  ].join('\n')).join('\n');
+  return `${header}\n\n${body}\n`;
+}
+
+function toMarkdown(session: SavedSession) {
+  const lines = [
+    `# DeepSink English session`,
+    '',
+    `- **Date:** ${new Date(session.date).toLocaleString()}`,
+    `- **Partner:** ${personaCatalog.nameOf(session.personaId)}`,
+    `- **Scene:** ${sceneCatalog.get(session.sceneId)?.name ?? session.sceneId}`,
+  ];
+  if (session.topic) lines.push(`- **Topic:** ${session.topic}`);
+  if (session.mission) lines.push(`- **Mission:** ${missionTitle(session)}`);
+  if (session.score) {
+    const { total, fluency, vocabulary, nativeLike, comment } = session.score;
+    lines.push('', '## Score', '', '| Total | Fluency | Vocabulary | Native-like |', '| --- | --- | --- | --- |',
+      `| ${total} | ${fluency} | ${vocabulary} | ${nativeLike} |`, '', `> ${comment}`);
+    if (hasRubric(session.score)) {
+      const score = session.score;
+      lines.push('', `**Estimated CEFR level:** ${score.cefrLevel ?? 'n/a'}`, '',
+        `| ${RUBRIC_CRITERIA.map(c => RUBRIC_LABELS[c]).join(' | ')} |`, `|${' --- |'.repeat(RUBRIC_CRITERIA.length)}`,
+        `| ${RUBRIC_CRITERIA.map(c => score[c]).join(' | ')} |`);
+      if (score.strengths?.length) lines.push('', '**Strengths**', '', ...score.strengths.map(s => `- ${s}`));
+      if (score.weaknesses?.length) lines.push('', '**To work on**', '', ...score.weaknesses.map(w => `- ${w}`));
+      if (score.evidence?.length) lines.push('', '**Evidence**', '', ...score.evidence.map(e => `- _${RUBRIC_LABELS[e.criterion]}:_ "${e.quote}" ${e.note}`));
+    }
+    if (session.score.mission) {
+      const { success, score, comment: missionComment } = session.score.mission;
+      lines.push('', `**Mission ${success ? 'accomplished' : 'not accomplished'}** (${score}/100): ${missionComment}`);
+    }
+  }
+  lines.push('', '## Transcript', '');
+  session.messages.forEach(m => {
+    lines.push(`**${speakerName(m)}** _(${clock(m.timestamp)})_: ${m.text}${m.interrupted ? ' _(interrupted)_' : ''}`, '');
+    m.corrections?.forEach(c => lines.push(`> ~~${c.original}~~ → **${c.corrected}** _(${c.category})_ ${c.explanation}`, ''));
+  });
+  return lines.join('\n');
+}
+
+function toSubtitles(session: SavedSession, format: 'srt' | 'vtt') {
+  const separator = format === 'srt' ? ',' : '.';
+  const cues = buildCues(session).map((cue, idx) => {
+    const timing = `${formatCueTime(cue.start, separator)} --> ${formatCueTime(cue.end, separator)}`;
+    return format === 'srt'
+      ? `${idx + 1}\n${timing}\n${cue.speaker}: ${cue.text}\n`
+      : `${timing}\n<v ${cue.speaker}>${cue.text}\n`;
+  });
+  return format === 'srt' ? cues.join('\n') : `WEBVTT\n\n${cues.join('\n')}`;
+}
+
+export function formatTranscript(session: SavedSession, format: TranscriptFormat): string {
+  switch (format) {
+    case 'txt': return toText(session);
+    case 'md': return toMarkdown(session);
+    case 'json': return JSON.stringify(session, null, 2);
+    case 'srt':
+    case 'vtt': return toSubtitles(session, format);
+  }
+}
+
+export function downloadTranscript(session: SavedSession, format: TranscriptFormat) {
+  const blob = new Blob([formatTranscript(session, format)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `deepsink-${session.date.slice(0, 10)}-${session.id}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}